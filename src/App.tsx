@@ -14,13 +14,32 @@ import {
   SelectValue,
   SelectTrigger,
 } from '@/components/ui/select'
-import { VALID_MODELS, type ValidModel } from './constants/valid_modals'
+import {
+  getModelProvider,
+  PROVIDERS,
+  type SelectableModel,
+} from './constants/valid_modals'
 import { HideApiKey } from '@/components/ui/input'
 import { useChromeStorage } from './hooks/useChromeStorage'
+import { type CustomEndpoint, isCustomModel } from './interface/customEndpoint'
+import CustomEndpointsManager from '@/components/CustomEndpointsManager'
+import FallbackModelsManager from '@/components/FallbackModelsManager'
+import PromptTemplateManager from '@/components/PromptTemplateManager'
+import UsageView from '@/components/UsageView'
+import KeyVaultManager from '@/components/KeyVaultManager'
+import { getVaultState, type VaultState } from '@/lib/keyVault'
+import { useModelCatalog } from './hooks/useModelCatalog'
+import {
+  describeCapabilities,
+  findModel,
+  groupByProvider,
+} from './services/ModelCatalog'
+import { testConnection } from './services/providerHealth'
+import ProviderHealthList from '@/components/ProviderHealthList'
 
 const Popup: React.FC = () => {
   const [apikey, setApikey] = React.useState<string | null>(null)
-  const [model, setModel] = React.useState<ValidModel | null>(null)
+  const [model, setModel] = React.useState<SelectableModel | null>(null)
   const [isLoaded, setIsLoaded] = React.useState<boolean>(false)
 
   const [isloading, setIsloading] = useState<boolean>(false)
@@ -29,22 +48,72 @@ const Popup: React.FC = () => {
     message: string
   } | null>(null)
 
-  const [selectedModel, setSelectedModel] = useState<ValidModel>()
+  const [selectedModel, setSelectedModel] = useState<SelectableModel>()
+  const [customEndpoints, setCustomEndpoints] = useState<CustomEndpoint[]>([])
+  const { models: catalog, reload: reloadCatalog, refresh } = useModelCatalog()
+  const [isRefreshing, setIsRefreshing] = useState<boolean>(false)
+  const [vaultState, setVaultState] = useState<VaultState>('uninitialized')
+  const [healthVersion, setHealthVersion] = useState<number>(0)
+  const provider = model ? getModelProvider(model) : undefined
+
+  /**
+   * Re-reads the vault state and the key of the selected model, e.g. after
+   * the vault was unlocked.
+   */
+  const reloadVault = async () => {
+    const { getKeyModel, selectModel } = useChromeStorage()
+    setVaultState(await getVaultState())
+    setHealthVersion((version) => version + 1)
+    const selected = await selectModel()
+    setApikey(selected ? (await getKeyModel(selected)).apiKey || null : null)
+  }
+
+  const refreshCatalog = async () => {
+    setIsRefreshing(true)
+    const errors = await refresh()
+    const failed = Object.entries(errors)
+    setSubmitMessage(
+      failed.length > 0
+        ? {
+            state: 'error',
+            message: failed
+              .map(([provider, message]) => `${provider}: ${message}`)
+              .join('; '),
+          }
+        : { state: 'success', message: 'Model list updated' }
+    )
+    setIsRefreshing(false)
+  }
 
   const updatestorage = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     try {
       setIsloading(true)
 
-      const { setKeyModel } = useChromeStorage()
-      if (apikey && model) {
-        await setKeyModel(apikey, model)
+      const selected = findModel(catalog, model)
+      if (!apikey || !selected || !provider || provider === 'custom') return
+
+      const health = await testConnection(selected, apikey)
+      if (health.status === 'auth') {
+        setSubmitMessage({
+          state: 'error',
+          message: `${health.message}, it was not saved`,
+        })
+        return
       }
 
-      setSubmitMessage({
-        state: 'success',
-        message: 'API Key saved successfully',
-      })
+      const { setProviderKey } = useChromeStorage()
+      await setProviderKey(provider, apikey)
+      setHealthVersion((version) => version + 1)
+
+      setSubmitMessage(
+        health.status === 'ok'
+          ? { state: 'success', message: 'API Key verified and saved' }
+          : {
+              state: 'error',
+              message: `API Key saved, but the test failed: ${health.message}`,
+            }
+      )
     } catch (error: any) {
       setSubmitMessage({
         state: 'error',
@@ -59,11 +128,14 @@ const Popup: React.FC = () => {
     const loadChromeStorage = async () => {
       if (!chrome) return
 
-      const { selectModel, getKeyModel } = useChromeStorage()
+      const { selectModel, getKeyModel, getCustomEndpoints } =
+        useChromeStorage()
 
+      setCustomEndpoints(await getCustomEndpoints())
       setModel(await selectModel())
       setSelectedModel(await selectModel())
-      setApikey((await getKeyModel(await selectModel())).apiKey)
+      setApikey((await getKeyModel(await selectModel())).apiKey || null)
+      setVaultState(await getVaultState())
 
       setIsLoaded(true)
     }
@@ -71,13 +143,13 @@ const Popup: React.FC = () => {
     loadChromeStorage()
   }, [])
 
-  const heandelModel = async (v: ValidModel) => {
+  const heandelModel = async (v: SelectableModel) => {
     if (v) {
       const { setSelectModel, getKeyModel, selectModel } = useChromeStorage()
       setSelectModel(v)
       setModel(v)
       setSelectedModel(v)
-      setApikey((await getKeyModel(await selectModel())).apiKey)
+      setApikey((await getKeyModel(await selectModel())).apiKey || null)
     }
   }
 
@@ -106,48 +178,90 @@ const Popup: React.FC = () => {
             className="mt-10 flex flex-col gap-2 w-full"
           >
             <div className="space-y-2">
-              <label htmlFor="text" className="text-xs text-muted-foreground">
-                select a model
-              </label>
+              <div className="flex items-center justify-between">
+                <label htmlFor="text" className="text-xs text-muted-foreground">
+                  select a model
+                </label>
+                <button
+                  type="button"
+                  className="text-xs text-blue-500 hover:underline disabled:opacity-50"
+                  onClick={refreshCatalog}
+                  disabled={isRefreshing}
+                >
+                  {isRefreshing ? 'refreshing...' : 'refresh models'}
+                </button>
+              </div>
               <Select
-                onValueChange={(v: ValidModel) => heandelModel(v)}
+                onValueChange={(v: SelectableModel) => heandelModel(v)}
                 value={selectedModel}
               >
                 <SelectTrigger className="w-full">
                   <SelectValue placeholder="Select a model" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectGroup>
-                    <SelectLabel>Model</SelectLabel>
-                    <SelectSeparator />
-                    {VALID_MODELS.map((modelOption) => (
-                      <SelectItem
-                        key={modelOption.name}
-                        value={modelOption.name}
-                      >
-                        {modelOption.display}
-                      </SelectItem>
-                    ))}
-                  </SelectGroup>
+                  {groupByProvider(catalog).map(([provider, models], index) => (
+                    <SelectGroup key={provider}>
+                      {index > 0 && <SelectSeparator />}
+                      <SelectLabel>{PROVIDERS[provider]}</SelectLabel>
+                      {models.map((modelOption) => (
+                        <SelectItem
+                          key={modelOption.name}
+                          value={modelOption.name}
+                        >
+                          {modelOption.display}{' '}
+                          <span className="text-xs text-muted-foreground">
+                            {describeCapabilities(modelOption)}
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
-            <div className="space-y-2">
-              <label htmlFor="text" className="text-xs text-muted-foreground">
-                API Key {model ? `for ${model}` : ''}
-              </label>
-              <HideApiKey
-                value={apikey || ''}
-                onChange={(e) => setApikey(e.target.value)}
-                placeholder="Enter OpenAI API Key"
-                disabled={!model}
-                required
-              />
-            </div>
-            <Button disabled={isloading} type="submit" className="w-full mt-2">
-              save API Key
-            </Button>
+            {isCustomModel(model) ? (
+              <p className="text-xs text-muted-foreground">
+                This model uses a custom endpoint. Edit its URL and key below.
+              </p>
+            ) : vaultState !== 'unlocked' ? (
+              <p className="text-xs text-muted-foreground">
+                {vaultState === 'locked'
+                  ? 'Unlock your API keys below to use or change them.'
+                  : 'Set a passphrase below before saving an API key.'}
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <label
+                    htmlFor="text"
+                    className="text-xs text-muted-foreground"
+                  >
+                    API Key {provider ? `for ${PROVIDERS[provider]}` : ''}
+                  </label>
+                  <HideApiKey
+                    value={apikey || ''}
+                    onChange={(e) => setApikey(e.target.value)}
+                    placeholder="Enter API Key"
+                    disabled={!model}
+                    required
+                  />
+                </div>
+                <Button
+                  disabled={isloading}
+                  type="submit"
+                  className="w-full mt-2"
+                >
+                  {isloading ? 'testing...' : 'test & save API Key'}
+                </Button>
+              </>
+            )}
           </form>
+          <KeyVaultManager state={vaultState} onChange={reloadVault} />
+          <ProviderHealthList
+            catalog={catalog}
+            selectedModel={selectedModel}
+            refreshKey={healthVersion}
+          />
           {submitMessage ? (
             <div
               className="mt-2 text-center text-sm text-muted-foreground flex items-center justify-center p-2 rounded-sm"
@@ -172,6 +286,23 @@ const Popup: React.FC = () => {
           ) : (
             ''
           )}
+          <FallbackModelsManager catalog={catalog} />
+          <CustomEndpointsManager
+            endpoints={customEndpoints}
+            onChange={(endpoints) => {
+              setCustomEndpoints(endpoints)
+              reloadCatalog()
+            }}
+          />
+          <PromptTemplateManager />
+          <UsageView />
+          <Button
+            variant="outline"
+            className="w-full mt-4"
+            onClick={() => chrome.runtime.openOptionsPage()}
+          >
+            Browse chat history
+          </Button>
           <div className="mt-7 flex items-center justify-center">
             <p className="text-sm">
               Want more features?&nbsp;
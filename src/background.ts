@@ -0,0 +1,325 @@
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import {
+  GENERATE_PORT,
+  GeneratePortEvent,
+  GeneratePortRequest,
+  GenerateResult,
+  ModelStatus,
+} from '@/interface/messages'
+import { ConversationDump } from '@/interface/chatHistory'
+import { isCustomModel } from '@/interface/customEndpoint'
+import { createBackup, restoreBackup } from '@/services/backup'
+import {
+  appendMessages,
+  clearChatHistory,
+  createThread,
+  deleteThreads,
+  exportConversations,
+  getAllMessages,
+  getAllThreads,
+  getConversationSummary,
+  getMessagePage,
+  getThread,
+  getThreads,
+  importConversations,
+  importNewConversations,
+  renameThread,
+  saveConversationSummary,
+  searchMessages,
+} from '@/lib/indexedDB'
+import { VAULT_SESSION_KEY } from '@/lib/keyVault'
+import { resolveConversationKey } from '@/lib/conversationKey'
+import {
+  createMessageBus,
+  extensionPagesOnly,
+  isExtensionPage,
+  MessageSenderLike,
+} from '@/lib/messageBus'
+import { generatePortRequestSchema } from '@/schema/messages'
+import { toSite } from '@/services/promptTemplates'
+import {
+  runGeneration,
+  savePendingResult,
+  takePendingResults,
+} from '@/services/generation'
+
+/**
+ * Storage keys that change too often to be worth a broadcast.
+ */
+const UNBROADCAST_KEYS = ['youtube-handler-logs']
+
+/**
+ * Session storage keys worth a broadcast. Content scripts can't observe
+ * session storage themselves.
+ */
+const BROADCAST_SESSION_KEYS = [VAULT_SESSION_KEY]
+
+const bus = createMessageBus()
+
+/**
+ * Tells whether a conversation key belongs to the site of a page. Keys are
+ * compared by the site of the page's own key, so e.g. m.youtube.com reaches
+ * the videos keyed on www.youtube.com.
+ *
+ * @param {string} problemName - The conversation key.
+ * @param {string} url - The address of the page.
+ * @returns {boolean}
+ */
+const isPageSite = (problemName: string, url: string) => {
+  const site = toSite(resolveConversationKey(url))
+  return !!site && toSite(problemName) === site
+}
+
+/**
+ * Keeps the threads of a dump that belong to the site of a page, and their
+ * messages, so a content script can't import into or export other sites'
+ * history.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ * @param {string} url - The address of the page.
+ * @returns {ConversationDump}
+ */
+const filterSiteConversations = (
+  { threads, messages }: ConversationDump,
+  url: string
+): ConversationDump => {
+  const kept = threads.filter((thread) => isPageSite(thread.problemName, url))
+  const ids = new Set(kept.map((thread) => thread.id))
+  return {
+    threads: kept,
+    messages: messages.filter((message) => ids.has(message.threadId)),
+  }
+}
+
+/**
+ * Wraps a handler of a problem's threads so that content scripts only reach
+ * the problems of their own site. The extension's pages reach every one.
+ *
+ * @param handler - The handler to protect.
+ * @returns The handler, throwing for other sites.
+ */
+const ownSiteProblemOnly =
+  <P extends { problemName: string }, R>(handler: (payload: P) => R) =>
+  (payload: P, sender: MessageSenderLike): R => {
+    if (
+      !isExtensionPage(sender) &&
+      !isPageSite(payload.problemName, sender.url || '')
+    ) {
+      throw new Error('Only the conversations of this site can be reached')
+    }
+    return handler(payload)
+  }
+
+/**
+ * Wraps a handler of one thread so that content scripts only reach the
+ * threads of their own site. Pages can pass any thread id, so the site of
+ * the stored thread decides. Unknown threads are left to the handler.
+ *
+ * @param handler - The handler to protect.
+ * @returns The handler, throwing for threads of other sites.
+ */
+const ownSiteThreadOnly =
+  <P extends { threadId: string }, R>(handler: (payload: P) => R) =>
+  async (payload: P, sender: MessageSenderLike): Promise<Awaited<R>> => {
+    if (!isExtensionPage(sender)) {
+      const thread = await getThread(payload.threadId)
+      if (thread && !isPageSite(thread.problemName, sender.url || '')) {
+        throw new Error('Only the conversations of this site can be reached')
+      }
+    }
+    return await handler(payload)
+  }
+
+/**
+ * Answers whether the selected model has a usable key, without handing the
+ * key to the content script.
+ */
+const getModelStatus = async (): Promise<ModelStatus> => {
+  const { getKeyModel, selectModel } = useChromeStorage()
+  const model = await selectModel()
+  if (!model) return { model, hasKey: false, locked: false }
+
+  const { apiKey, locked } = await getKeyModel(model)
+  return { model, hasKey: !!apiKey || isCustomModel(model), locked }
+}
+
+bus.handle('openPopup', () => {
+  chrome.action.openPopup() // Opens the popup programmatically
+})
+bus.handle('getModelStatus', getModelStatus)
+bus.handle(
+  'takePendingResults',
+  ownSiteProblemOnly(({ problemName }) => takePendingResults(problemName))
+)
+
+// The chat history lives in the extension's origin, so every site and the
+// history page share it. Content scripts only reach their own site's part.
+bus.handle(
+  'getThreads',
+  ownSiteProblemOnly(({ problemName }) => getThreads(problemName))
+)
+bus.handle('getAllThreads', extensionPagesOnly(getAllThreads))
+bus.handle(
+  'createThread',
+  ownSiteProblemOnly(({ problemName, title, pageTitle }) =>
+    createThread(problemName, title, pageTitle)
+  )
+)
+bus.handle(
+  'renameThread',
+  ownSiteThreadOnly(({ threadId, title }) => renameThread(threadId, title))
+)
+bus.handle(
+  'deleteThread',
+  ownSiteThreadOnly(({ threadId }) => deleteThreads([threadId]))
+)
+bus.handle(
+  'deleteThreads',
+  extensionPagesOnly(({ threadIds }) => deleteThreads(threadIds))
+)
+bus.handle(
+  'appendMessages',
+  ownSiteThreadOnly(({ threadId, messages }) =>
+    appendMessages(threadId, messages)
+  )
+)
+bus.handle(
+  'getMessagePage',
+  ownSiteThreadOnly(({ threadId, limit, before }) =>
+    getMessagePage(threadId, limit, before)
+  )
+)
+bus.handle(
+  'getAllMessages',
+  ownSiteThreadOnly(({ threadId }) => getAllMessages(threadId))
+)
+bus.handle(
+  'clearChatHistory',
+  ownSiteThreadOnly(({ threadId }) => clearChatHistory(threadId))
+)
+bus.handle(
+  'getConversationSummary',
+  ownSiteThreadOnly(({ threadId }) => getConversationSummary(threadId))
+)
+bus.handle(
+  'saveConversationSummary',
+  ownSiteThreadOnly(({ threadId, summary }) =>
+    saveConversationSummary(threadId, summary)
+  )
+)
+bus.handle(
+  'searchMessages',
+  extensionPagesOnly(({ query }) => searchMessages(query))
+)
+bus.handle('exportConversations', async ({ threadIds }, sender) => {
+  const dump = await exportConversations(threadIds)
+  return isExtensionPage(sender)
+    ? dump
+    : filterSiteConversations(dump, sender.url || '')
+})
+bus.handle('importConversations', extensionPagesOnly(importConversations))
+bus.handle('importPageConversations', (dump, sender) =>
+  importNewConversations(filterSiteConversations(dump, sender.url || ''))
+)
+bus.handle(
+  'createBackup',
+  extensionPagesOnly(({ includeSecrets }) => createBackup(includeSecrets))
+)
+bus.handle(
+  'restoreBackup',
+  extensionPagesOnly(({ archive, mode }) => restoreBackup(archive, mode))
+)
+
+/**
+ * Tells the popup and every tab which settings changed.
+ */
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+  const keys = Object.keys(changes).filter((key) =>
+    areaName === 'session'
+      ? BROADCAST_SESSION_KEYS.includes(key)
+      : areaName === 'local' && !UNBROADCAST_KEYS.includes(key)
+  )
+  if (keys.length === 0) return
+
+  const message = await bus.emit('settingsChanged', { keys })
+  for (const tab of await chrome.tabs.query({})) {
+    if (tab.id === undefined) continue
+    // Tabs without the content script reject, which is fine.
+    chrome.tabs.sendMessage(tab.id, message).catch(() => undefined)
+  }
+})
+
+/**
+ * Streams generations to content scripts. A request keeps running when its
+ * port closes, e.g. because the page navigated, and its answer is kept as a
+ * pending result instead.
+ */
+bus.onConnect<GeneratePortEvent, GeneratePortRequest>(
+  GENERATE_PORT,
+  generatePortRequestSchema,
+  (port) => {
+    let isConnected = true
+    const controllers = new Map<string, AbortController>()
+
+    const post = (event: GeneratePortEvent) => {
+      if (isConnected) port.post(event)
+    }
+
+    port.onDisconnect(() => {
+      isConnected = false
+    })
+
+    port.onMessage(async (message) => {
+      if (message.type === 'abort') {
+        controllers.get(message.requestId)?.abort()
+        return
+      }
+
+      const { requestId } = message
+      const controller = new AbortController()
+      controllers.set(requestId, controller)
+
+      let result: GenerateResult
+      try {
+        result = await runGeneration(
+          message,
+          {
+            onPartial: (partial) =>
+              post({ type: 'partial', requestId, partial }),
+            onAttempt: (model) =>
+              post({ type: 'attempt', requestId, model: model.name }),
+          },
+          controller.signal
+        )
+      } catch (error: any) {
+        // E.g. storage failures, which runGeneration doesn't turn into results
+        result = {
+          error: { kind: 'unknown', message: error?.message || String(error) },
+          success: null,
+          model: null,
+        }
+      } finally {
+        controllers.delete(requestId)
+      }
+
+      try {
+        if (isConnected) {
+          post({ type: 'done', requestId, result })
+        } else if (!controller.signal.aborted) {
+          await savePendingResult({
+            requestId,
+            problemName: message.problemName,
+            threadId: message.threadId,
+            prompt: message.prompt,
+            mode: message.mode,
+            result,
+          })
+        }
+      } finally {
+        // Every request opens its own port
+        isConnected = false
+        port.disconnect()
+      }
+    })
+  }
+)
@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react'
+import { ArchiveRestore, Download } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { BackupArchive, RestoreMode } from '@/interface/backup'
+import { downloadFile } from '@/lib/conversationExport'
+import { createMessageBus } from '@/lib/messageBus'
+import { parseBackup } from '@/services/backup'
+
+type Props = {
+  /**
+   * Called after a backup was restored.
+   */
+  onRestore: () => void
+}
+
+const RESTORE_MODES: Record<RestoreMode, string> = {
+  merge: 'Merge with current data',
+  replace: 'Replace current data',
+}
+
+/**
+ * Downloads a backup of the whole extension state and restores one after
+ * showing what it holds.
+ *
+ * @param {Props} props - The component properties.
+ * @param {Function} props.onRestore - Called after a backup was restored.
+ * @returns {React.ReactElement} - The backup controls.
+ */
+const BackupManager: React.FC<Props> = ({ onRestore }) => {
+  const [includeSecrets, setIncludeSecrets] = useState<boolean>(false)
+  const [archive, setArchive] = useState<BackupArchive | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [isBusy, setIsBusy] = useState<boolean>(false)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(
+    null
+  )
+  const fileRef = useRef<HTMLInputElement>(null)
+
+  /**
+   * Runs an action and reports its outcome, with the warnings it returned.
+   */
+  const run = async (
+    action: () => Promise<string[] | void>,
+    success: string
+  ) => {
+    setIsBusy(true)
+    try {
+      const warnings = (await action()) || []
+      setMessage(
+        warnings.length > 0
+          ? { ok: false, text: `${success}. ${warnings.join(' ')}` }
+          : { ok: true, text: success }
+      )
+    } catch (error: any) {
+      setMessage({ ok: false, text: error.message })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleBackup = () =>
+    run(async () => {
+      const backup = await createMessageBus().request('createBackup', {
+        includeSecrets,
+      })
+      downloadFile(
+        `leetcode-whisper-backup-${backup.createdAt.slice(0, 10)}.json`,
+        JSON.stringify(backup, null, 2),
+        'application/json'
+      )
+    }, 'Backup downloaded')
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const { error, success } = parseBackup(await file.text())
+    setArchive(success)
+    setMessage(error ? { ok: false, text: error } : null)
+  }
+
+  const handleRestore = () => {
+    if (!archive) return
+    if (
+      mode === 'replace' &&
+      !window.confirm(
+        'This deletes your current conversations, settings and usage stats. Continue?'
+      )
+    ) {
+      return
+    }
+    run(async () => {
+      const { warnings } = await createMessageBus().request('restoreBackup', {
+        archive,
+        mode,
+      })
+      setArchive(null)
+      onRestore()
+      return warnings
+    }, 'Backup restored')
+  }
+
+  return (
+    <div className="mt-6 space-y-2 rounded-md border p-3">
+      <p className="text-sm font-medium">Backup</p>
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={includeSecrets}
+            onChange={(event) => setIncludeSecrets(event.target.checked)}
+          />
+          Include API keys
+        </label>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="small"
+            disabled={isBusy}
+            onClick={handleBackup}
+          >
+            <Download className="mr-2 h-4 w-4" /> Download backup
+          </Button>
+          <Button
+            variant="outline"
+            size="small"
+            disabled={isBusy}
+            onClick={() => fileRef.current?.click()}
+          >
+            <ArchiveRestore className="mr-2 h-4 w-4" /> Restore…
+          </Button>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+      {includeSecrets && (
+        <p className="text-xs text-muted-foreground">
+          Vault keys stay encrypted with your passphrase; keys of custom
+          endpoints are saved in plain text.
+        </p>
+      )}
+
+      {archive && (
+        <div className="space-y-2 rounded-md bg-muted p-3 text-sm">
+          <p>Backup of {new Date(archive.createdAt).toLocaleString()}</p>
+          <ul className="list-disc pl-5 text-xs text-muted-foreground">
+            <li>
+              {archive.conversations.threads.length} conversations with{' '}
+              {archive.conversations.messages.length} messages
+            </li>
+            <li>{archive.usage.length} usage records</li>
+            <li>
+              Model {archive.settings.selectedModel || 'not selected'},{' '}
+              {archive.settings.fallbackModels.length} fallback models,{' '}
+              {archive.settings.customEndpoints.length} custom endpoints,{' '}
+              {archive.settings.promptTemplates?.length || 0} prompt templates
+            </li>
+            <li>
+              {archive.secrets
+                ? `API keys included${archive.secrets.vault ? '; unlock them with the passphrase they had when the backup was made' : ''}`
+                : 'No API keys'}
+            </li>
+          </ul>
+          <div className="flex gap-2">
+            <Select
+              value={mode}
+              onValueChange={(value) => setMode(value as RestoreMode)}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RESTORE_MODES) as RestoreMode[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {RESTORE_MODES[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button disabled={isBusy} onClick={handleRestore}>
+              Restore
+            </Button>
+            <Button variant="tertiary" onClick={() => setArchive(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p
+          className={
+            message.ok
+              ? 'text-xs text-green-500 break-words'
+              : 'text-xs text-red-500 break-words'
+          }
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default BackupManager
@@ -0,0 +1,232 @@
+import React, { useState } from 'react'
+import { Pencil, Plus, Trash2, Wifi } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { HideApiKey, Input } from '@/components/ui/input'
+import { CustomEndpoint, toCustomModel } from '@/interface/customEndpoint'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import {
+  EndpointTestResult,
+  requestEndpointPermission,
+  testCustomEndpoint,
+} from '@/services/customEndpoints'
+
+type Props = {
+  endpoints: CustomEndpoint[]
+  onChange: (endpoints: CustomEndpoint[]) => void
+}
+
+const EMPTY_ENDPOINT: CustomEndpoint = {
+  id: '',
+  name: '',
+  baseURL: 'http://localhost:11434/v1',
+  model: '',
+}
+
+/**
+ * Lets the user add, edit, test and remove OpenAI-compatible endpoints
+ * such as Ollama, LM Studio or vLLM. Their keys are kept in the vault, so an
+ * edited endpoint keeps its key unless a new one is entered.
+ *
+ * @param {Props} props - The component properties.
+ * @param {CustomEndpoint[]} props.endpoints - The endpoints currently stored.
+ * @param {Function} props.onChange - Called with the new list after it was saved.
+ * @returns {React.ReactElement} - The endpoint manager.
+ */
+const CustomEndpointsManager: React.FC<Props> = ({ endpoints, onChange }) => {
+  const [draft, setDraft] = useState<CustomEndpoint | null>(null)
+  const [testResult, setTestResult] = useState<EndpointTestResult | null>(null)
+  const [isTesting, setIsTesting] = useState<boolean>(false)
+
+  const saveEndpoints = async (next: CustomEndpoint[]) => {
+    const { setCustomEndpoints } = useChromeStorage()
+    await setCustomEndpoints(next)
+    onChange(next)
+  }
+
+  const handleTest = async (endpoint: CustomEndpoint) => {
+    setIsTesting(true)
+    setTestResult(null)
+    await requestEndpointPermission(endpoint.baseURL).catch(() => false)
+    const { getKeyModel } = useChromeStorage()
+    const apiKey =
+      endpoint.apiKey ||
+      (endpoint.id
+        ? (await getKeyModel(toCustomModel(endpoint))).apiKey
+        : undefined)
+    setTestResult(await testCustomEndpoint({ ...endpoint, apiKey }))
+    setIsTesting(false)
+  }
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!draft) return
+
+    try {
+      await requestEndpointPermission(draft.baseURL)
+    } catch (error: any) {
+      setTestResult({ ok: false, message: error.message })
+      return
+    }
+
+    const endpoint = { ...draft, id: draft.id || crypto.randomUUID() }
+    const exists = endpoints.some((e) => e.id === endpoint.id)
+    try {
+      await saveEndpoints(
+        exists
+          ? endpoints.map((e) => (e.id === endpoint.id ? endpoint : e))
+          : [...endpoints, endpoint]
+      )
+    } catch (error: any) {
+      setTestResult({ ok: false, message: error.message })
+      return
+    }
+    setDraft(null)
+    setTestResult({ ok: true, message: `${endpoint.name} saved` })
+  }
+
+  const handleDelete = async (id: string) => {
+    await saveEndpoints(endpoints.filter((e) => e.id !== id))
+    setTestResult(null)
+  }
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Custom endpoints (Ollama, LM Studio, vLLM)
+        </p>
+        {!draft && (
+          <Button
+            variant="tertiary"
+            size="icon"
+            onClick={() => {
+              setDraft(EMPTY_ENDPOINT)
+              setTestResult(null)
+            }}
+          >
+            <Plus size={16} />
+            <span className="sr-only">Add endpoint</span>
+          </Button>
+        )}
+      </div>
+
+      {endpoints.map((endpoint) => (
+        <div
+          key={endpoint.id}
+          className="flex items-center justify-between rounded-md border border-input px-3 py-2"
+        >
+          <div className="min-w-0">
+            <p className="text-sm truncate">{endpoint.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {endpoint.model} · {endpoint.baseURL}
+            </p>
+          </div>
+          <div className="flex">
+            <Button
+              variant="tertiary"
+              size="icon"
+              disabled={isTesting}
+              onClick={() => handleTest(endpoint)}
+            >
+              <Wifi size={14} />
+              <span className="sr-only">Test connection</span>
+            </Button>
+            <Button
+              variant="tertiary"
+              size="icon"
+              onClick={() => {
+                setDraft(endpoint)
+                setTestResult(null)
+              }}
+            >
+              <Pencil size={14} />
+              <span className="sr-only">Edit</span>
+            </Button>
+            <Button
+              variant="tertiary"
+              size="icon"
+              onClick={() => handleDelete(endpoint.id)}
+            >
+              <Trash2 size={14} />
+              <span className="sr-only">Delete</span>
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {draft && (
+        <form onSubmit={handleSave} className="flex flex-col gap-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name, e.g. Local Llama"
+            required
+          />
+          <Input
+            type="url"
+            value={draft.baseURL}
+            onChange={(e) => setDraft({ ...draft, baseURL: e.target.value })}
+            placeholder="Base URL, e.g. http://localhost:11434/v1"
+            required
+          />
+          <Input
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            placeholder="Model id, e.g. llama3.1"
+            required
+          />
+          <HideApiKey
+            value={draft.apiKey || ''}
+            onChange={(e) =>
+              setDraft({ ...draft, apiKey: e.target.value || undefined })
+            }
+            placeholder={
+              draft.id
+                ? 'API Key (empty keeps the current one)'
+                : 'API Key (optional)'
+            }
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              disabled={isTesting || !draft.baseURL || !draft.model}
+              onClick={() => handleTest(draft)}
+            >
+              Test
+            </Button>
+            <Button type="submit" className="flex-1">
+              Save
+            </Button>
+            <Button
+              type="button"
+              variant="tertiary"
+              onClick={() => {
+                setDraft(null)
+                setTestResult(null)
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {testResult && (
+        <p
+          className={
+            testResult.ok
+              ? 'text-xs text-green-500 break-words'
+              : 'text-xs text-red-500 break-words'
+          }
+        >
+          {testResult.message}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default CustomEndpointsManager
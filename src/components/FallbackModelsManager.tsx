@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react'
+import { ArrowUp, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SelectableModel } from '@/constants/valid_modals'
+import { CatalogModel } from '@/interface/catalog'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import { findModel } from '@/services/ModelCatalog'
+
+type Props = {
+  catalog: CatalogModel[]
+}
+
+/**
+ * Lets the user pick an ordered list of models to fall back to when the
+ * selected model keeps failing.
+ *
+ * @param {Props} props - The component properties.
+ * @param {CatalogModel[]} props.catalog - The models that can be added.
+ * @returns {React.ReactElement} - The fallback list editor.
+ */
+const FallbackModelsManager: React.FC<Props> = ({ catalog }) => {
+  const [fallbacks, setFallbacks] = useState<SelectableModel[]>([])
+
+  useEffect(() => {
+    const { getFallbackModels } = useChromeStorage()
+    getFallbackModels().then(setFallbacks)
+  }, [])
+
+  const saveFallbacks = async (next: SelectableModel[]) => {
+    const { setFallbackModels } = useChromeStorage()
+    await setFallbackModels(next)
+    setFallbacks(next)
+  }
+
+  const moveUp = (index: number) => {
+    const next = [...fallbacks]
+    ;[next[index - 1], next[index]] = [next[index], next[index - 1]]
+    saveFallbacks(next)
+  }
+
+  return (
+    <div className="mt-6 space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Fallback models, tried in order when the selected one fails
+      </p>
+
+      {fallbacks.map((name, index) => (
+        <div
+          key={name}
+          className="flex items-center justify-between rounded-md border border-input px-3 py-1"
+        >
+          <p className="text-sm truncate">
+            {index + 1}. {findModel(catalog, name)?.display || name}
+          </p>
+          <div className="flex">
+            <Button
+              variant="tertiary"
+              size="icon"
+              disabled={index === 0}
+              onClick={() => moveUp(index)}
+            >
+              <ArrowUp size={14} />
+              <span className="sr-only">Move up</span>
+            </Button>
+            <Button
+              variant="tertiary"
+              size="icon"
+              onClick={() =>
+                saveFallbacks(fallbacks.filter((model) => model !== name))
+              }
+            >
+              <Trash2 size={14} />
+              <span className="sr-only">Remove</span>
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Select
+        value=""
+        onValueChange={(v: SelectableModel) => saveFallbacks([...fallbacks, v])}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Add a fallback model" />
+        </SelectTrigger>
+        <SelectContent>
+          {catalog
+            .filter((model) => !fallbacks.includes(model.name))
+            .map((model) => (
+              <SelectItem key={model.name} value={model.name}>
+                {model.display}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export default FallbackModelsManager
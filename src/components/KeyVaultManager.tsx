@@ -0,0 +1,180 @@
+import React, { useState } from 'react'
+import { Lock, LockOpen } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { HideApiKey } from '@/components/ui/input'
+import {
+  createVault,
+  lockVault,
+  resetVault,
+  rotatePassphrase,
+  unlockVault,
+  VaultState,
+} from '@/lib/keyVault'
+
+type Props = {
+  state: VaultState
+  onChange: () => void
+}
+
+/**
+ * Sets up, unlocks, locks and rotates the passphrase of the API key vault.
+ *
+ * @param {Props} props - The component properties.
+ * @param {VaultState} props.state - The current state of the vault.
+ * @param {Function} props.onChange - Called after the vault state changed.
+ * @returns {React.ReactElement} - The vault controls.
+ */
+const KeyVaultManager: React.FC<Props> = ({ state, onChange }) => {
+  const [passphrase, setPassphrase] = useState<string>('')
+  const [nextPassphrase, setNextPassphrase] = useState<string>('')
+  const [isRotating, setIsRotating] = useState<boolean>(false)
+  const [isBusy, setIsBusy] = useState<boolean>(false)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(
+    null
+  )
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsBusy(true)
+    try {
+      await action()
+      setMessage({ ok: true, text: success })
+      setPassphrase('')
+      setNextPassphrase('')
+      setIsRotating(false)
+      onChange()
+    } catch (error: any) {
+      setMessage({ ok: false, text: error.message })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (state === 'uninitialized') {
+      if (passphrase !== nextPassphrase) {
+        setMessage({ ok: false, text: 'The passphrases do not match' })
+        return
+      }
+      run(() => createVault(passphrase), 'Your API keys are now encrypted')
+    } else if (state === 'locked') {
+      run(() => unlockVault(passphrase), 'Keys unlocked for this session')
+    } else if (isRotating) {
+      run(
+        () => rotatePassphrase(passphrase, nextPassphrase),
+        'Passphrase changed'
+      )
+    }
+  }
+
+  const handleReset = () => {
+    if (
+      window.confirm(
+        'This deletes every stored API key. You will have to enter them again. Continue?'
+      )
+    ) {
+      run(resetVault, 'Keys deleted, set up a new passphrase')
+    }
+  }
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {state === 'uninitialized' &&
+            'Set a passphrase to encrypt your API keys'}
+          {state === 'locked' && 'Your API keys are locked'}
+          {state === 'unlocked' && 'Your API keys are unlocked'}
+        </p>
+        {state === 'unlocked' && (
+          <Button
+            variant="tertiary"
+            size="icon"
+            onClick={() => run(lockVault, 'Keys locked')}
+          >
+            <Lock size={14} />
+            <span className="sr-only">Lock</span>
+          </Button>
+        )}
+      </div>
+
+      {(state !== 'unlocked' || isRotating) && (
+        <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+          <HideApiKey
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={isRotating ? 'Current passphrase' : 'Passphrase'}
+            required
+          />
+          {(state === 'uninitialized' || isRotating) && (
+            <HideApiKey
+              value={nextPassphrase}
+              onChange={(e) => setNextPassphrase(e.target.value)}
+              placeholder={isRotating ? 'New passphrase' : 'Repeat passphrase'}
+              required
+            />
+          )}
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={isBusy}>
+              {state === 'locked' && (
+                <>
+                  <LockOpen size={14} className="mr-2" /> Unlock
+                </>
+              )}
+              {state === 'uninitialized' && 'Encrypt keys'}
+              {isRotating && 'Change passphrase'}
+            </Button>
+            {isRotating && (
+              <Button
+                type="button"
+                variant="tertiary"
+                onClick={() => setIsRotating(false)}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      )}
+
+      <div className="flex justify-between">
+        {state === 'unlocked' && !isRotating && (
+          <button
+            type="button"
+            className="text-xs text-blue-500 hover:underline"
+            onClick={() => {
+              setIsRotating(true)
+              setMessage(null)
+            }}
+          >
+            change passphrase
+          </button>
+        )}
+        {state === 'locked' && (
+          <button
+            type="button"
+            className="text-xs text-blue-500 hover:underline"
+            onClick={handleReset}
+          >
+            forgot passphrase?
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p
+          className={
+            message.ok
+              ? 'text-xs text-green-500 break-words'
+              : 'text-xs text-red-500 break-words'
+          }
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default KeyVaultManager
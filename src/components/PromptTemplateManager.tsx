@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Copy, Eye, Pencil, Plus, Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { PROMPT_PLACEHOLDERS } from '@/constants/prompt'
+import { PromptPlaceholder, PromptTemplate } from '@/interface/promptTemplate'
+import { createMessageBus, tabRuntime } from '@/lib/messageBus'
+import {
+  BUILT_IN_TEMPLATE,
+  createPromptTemplate,
+  deletePromptTemplate,
+  findUnknownPlaceholders,
+  getPromptTemplates,
+  renderPrompt,
+  savePromptTemplate,
+  toPromptVariables,
+} from '@/services/promptTemplates'
+
+/**
+ * The template being edited. `id` is null for a new template.
+ */
+interface Draft {
+  id: string | null
+  name: string
+  content: string
+  sites: string
+}
+
+/**
+ * Lets the user create, clone and edit system prompt templates, pick the
+ * sites they are used on and preview them against the current tab.
+ *
+ * @returns {React.ReactElement} - The template editor.
+ */
+const PromptTemplateManager: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(
+    null
+  )
+  const contentRef = useRef<HTMLTextAreaElement>(null)
+
+  const editing = templates.find((template) => template.id === draft?.id)
+  const isReadOnly = draft?.id === BUILT_IN_TEMPLATE.id
+  const unknown = draft ? findUnknownPlaceholders(draft.content) : []
+
+  useEffect(() => {
+    getPromptTemplates().then(setTemplates)
+  }, [])
+
+  const openDraft = (next: Draft | null) => {
+    setDraft(next)
+    setPreview(null)
+    setMessage(null)
+  }
+
+  const edit = (template: PromptTemplate) =>
+    openDraft({
+      id: template.id,
+      name: template.name,
+      content: template.content,
+      sites: template.sites.join(', '),
+    })
+
+  const clone = (template: PromptTemplate) =>
+    openDraft({
+      id: null,
+      name: `${template.name} (copy)`,
+      content: template.content,
+      sites: '',
+    })
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return
+    await deletePromptTemplate(template.id)
+    setTemplates(await getPromptTemplates())
+    if (draft?.id === template.id) openDraft(null)
+  }
+
+  /**
+   * Inserts a placeholder at the cursor.
+   */
+  const insertPlaceholder = (name: PromptPlaceholder) => {
+    if (!draft || isReadOnly) return
+    const token = `{{${name}}}`
+    const start = contentRef.current?.selectionStart ?? draft.content.length
+    const end = contentRef.current?.selectionEnd ?? start
+    setDraft({
+      ...draft,
+      content: draft.content.slice(0, start) + token + draft.content.slice(end),
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!draft) return
+    const sites = draft.sites.split(',')
+    try {
+      const saved = draft.id
+        ? await savePromptTemplate({ ...draft, id: draft.id, sites })
+        : await createPromptTemplate(draft.name, draft.content, sites)
+      setTemplates(await getPromptTemplates())
+      edit(saved)
+      setMessage({ ok: true, text: `Saved version ${saved.version}` })
+    } catch (error: any) {
+      setMessage({ ok: false, text: error.message })
+    }
+  }
+
+  /**
+   * Renders the draft with the context of the page open in the current tab.
+   */
+  const handlePreview = async () => {
+    if (!draft) return
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    try {
+      if (tab?.id === undefined) throw new Error('No tab')
+      const context = await createMessageBus(tabRuntime(tab.id)).request(
+        'getPageContext',
+        {}
+      )
+      setPreview(renderPrompt(draft.content, toPromptVariables(context)))
+      setMessage(null)
+    } catch {
+      setPreview(null)
+      setMessage({
+        ok: false,
+        text: 'Open a web page, or reload it, to preview the template against it',
+      })
+    }
+  }
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          System prompt templates, per site or per conversation
+        </p>
+        {!draft && (
+          <Button
+            variant="tertiary"
+            size="icon"
+            onClick={() =>
+              openDraft({
+                id: null,
+                name: '',
+                content: BUILT_IN_TEMPLATE.content,
+                sites: '',
+              })
+            }
+          >
+            <Plus size={16} />
+            <span className="sr-only">Add template</span>
+          </Button>
+        )}
+      </div>
+
+      {templates.map((template) => (
+        <div
+          key={template.id}
+          className="flex items-center justify-between rounded-md border border-input px-3 py-2"
+        >
+          <div className="min-w-0">
+            <p className="text-sm truncate">{template.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              v{template.version}
+              {template.sites.length > 0 && ` · ${template.sites.join(', ')}`}
+            </p>
+          </div>
+          <div className="flex">
+            <Button
+              variant="tertiary"
+              size="icon"
+              onClick={() => edit(template)}
+            >
+              {template.id === BUILT_IN_TEMPLATE.id ? (
+                <Eye size={14} />
+              ) : (
+                <Pencil size={14} />
+              )}
+              <span className="sr-only">Edit</span>
+            </Button>
+            <Button
+              variant="tertiary"
+              size="icon"
+              onClick={() => clone(template)}
+            >
+              <Copy size={14} />
+              <span className="sr-only">Clone</span>
+            </Button>
+            {template.id !== BUILT_IN_TEMPLATE.id && (
+              <Button
+                variant="tertiary"
+                size="icon"
+                onClick={() => handleDelete(template)}
+              >
+                <Trash2 size={14} />
+                <span className="sr-only">Delete</span>
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {draft && (
+        <form onSubmit={handleSave} className="flex flex-col gap-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Name"
+            disabled={isReadOnly}
+            required
+          />
+          <Input
+            value={draft.sites}
+            onChange={(e) => setDraft({ ...draft, sites: e.target.value })}
+            placeholder="Sites, e.g. leetcode.com, youtube.com"
+            disabled={isReadOnly}
+          />
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(PROMPT_PLACEHOLDERS) as PromptPlaceholder[]).map(
+              (name) => (
+                <button
+                  key={name}
+                  type="button"
+                  title={PROMPT_PLACEHOLDERS[name]}
+                  className="rounded-sm bg-muted px-1 text-xs font-mono disabled:opacity-50"
+                  disabled={isReadOnly}
+                  onClick={() => insertPlaceholder(name)}
+                >
+                  {name}
+                </button>
+              )
+            )}
+          </div>
+          <textarea
+            ref={contentRef}
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            readOnly={isReadOnly}
+            rows={10}
+            className="w-full rounded-lg border border-input bg-background px-3 py-2 font-mono text-xs"
+            required
+          />
+          {isReadOnly && (
+            <p className="text-xs text-muted-foreground">
+              Clone the built-in template to edit it.
+            </p>
+          )}
+          {unknown.length > 0 && (
+            <p className="text-xs text-red-500">
+              Unknown placeholders:{' '}
+              {unknown.map((name) => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+          {editing && editing.revisions.length > 0 && !isReadOnly && (
+            <Select
+              value=""
+              onValueChange={(version) => {
+                const revision = editing.revisions.find(
+                  (revision) => String(revision.version) === version
+                )
+                if (revision) setDraft({ ...draft, content: revision.content })
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue
+                  placeholder={`Version ${editing.version} · restore an earlier one`}
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {editing.revisions.map((revision) => (
+                  <SelectItem
+                    key={revision.version}
+                    value={String(revision.version)}
+                  >
+                    Version {revision.version} of{' '}
+                    {new Date(revision.updatedAt).toLocaleString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={handlePreview}
+            >
+              Preview
+            </Button>
+            {!isReadOnly && (
+              <Button type="submit" className="flex-1">
+                Save
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="tertiary"
+              onClick={() => openDraft(null)}
+            >
+              Close
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {preview !== null && (
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-2 text-xs">
+          {preview}
+        </pre>
+      )}
+
+      {message && (
+        <p
+          className={
+            message.ok
+              ? 'text-xs text-green-500 break-words'
+              : 'text-xs text-red-500 break-words'
+          }
+        >
+          {message.text}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default PromptTemplateManager
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react'
+import { Wifi } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { SelectableModel } from '@/constants/valid_modals'
+import { CatalogModel } from '@/interface/catalog'
+import { VaultProvider } from '@/lib/keyVault'
+import { cn } from '@/lib/utils'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import { findModel, PROVIDER_CATALOGS } from '@/services/ModelCatalog'
+import {
+  getProviderHealth,
+  ProviderHealth,
+  testConnection,
+} from '@/services/providerHealth'
+
+type Props = {
+  catalog: CatalogModel[]
+  selectedModel?: SelectableModel
+  /**
+   * Changes whenever a key was saved or the vault was unlocked, so the list
+   * re-reads which providers have a key.
+   */
+  refreshKey?: unknown
+}
+
+/**
+ * Shows the last-known health of every provider that has a key and lets the
+ * user test the connection again.
+ *
+ * @param {Props} props - The component properties.
+ * @param {CatalogModel[]} props.catalog - The models to test with.
+ * @param {SelectableModel} [props.selectedModel] - Tested for its provider instead of the first bundled model.
+ * @returns {React.ReactElement} - The provider health list.
+ */
+const ProviderHealthList: React.FC<Props> = ({
+  catalog,
+  selectedModel,
+  refreshKey,
+}) => {
+  const [health, setHealth] = useState<
+    Partial<Record<VaultProvider, ProviderHealth>>
+  >({})
+  const [keys, setKeys] = useState<Partial<Record<VaultProvider, string>>>({})
+  const [testing, setTesting] = useState<VaultProvider | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      const { getProviderKey } = useChromeStorage()
+      const next: Partial<Record<VaultProvider, string>> = {}
+      for (const provider of PROVIDER_CATALOGS) {
+        next[provider.id] = await getProviderKey(provider.id)
+      }
+      setKeys(next)
+      setHealth(await getProviderHealth())
+    }
+    load()
+  }, [refreshKey])
+
+  const handleTest = async (provider: VaultProvider) => {
+    const apiKey = keys[provider]
+    const selected = findModel(catalog, selectedModel)
+    const model =
+      selected?.provider === provider
+        ? selected
+        : catalog.find((m) => m.provider === provider)
+    if (!apiKey || !model) return
+
+    setTesting(provider)
+    const result = await testConnection(model, apiKey)
+    setHealth((prev) => ({ ...prev, [provider]: result }))
+    setTesting(null)
+  }
+
+  const providers = PROVIDER_CATALOGS.filter((provider) => keys[provider.id])
+  if (providers.length === 0) return null
+
+  return (
+    <div className="mt-6 space-y-2">
+      <p className="text-xs text-muted-foreground">Provider status</p>
+      {providers.map((provider) => {
+        const status = health[provider.id]
+        return (
+          <div
+            key={provider.id}
+            className="flex items-center justify-between rounded-md border border-input px-3 py-1"
+          >
+            <div className="min-w-0">
+              <p className="text-sm flex items-center gap-2">
+                <span
+                  className={cn(
+                    'inline-block h-2 w-2 rounded-full',
+                    !status && 'bg-muted-foreground',
+                    status?.status === 'ok' && 'bg-green-500',
+                    status && status.status !== 'ok' && 'bg-red-500'
+                  )}
+                />
+                {provider.display}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {status
+                  ? `${status.message} · ${new Date(status.checkedAt).toLocaleString()}`
+                  : 'Not tested yet'}
+              </p>
+            </div>
+            <Button
+              variant="tertiary"
+              size="icon"
+              disabled={testing !== null}
+              onClick={() => handleTest(provider.id)}
+            >
+              <Wifi size={14} />
+              <span className="sr-only">Test connection</span>
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ProviderHealthList
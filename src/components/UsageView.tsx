@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react'
+import { Trash2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { PROVIDERS } from '@/constants/valid_modals'
+import { ProviderId } from '@/interface/catalog'
+import { UsageGrouping, UsageRecord, UsageSummary } from '@/interface/usage'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import {
+  BUDGET_WARNING_RATIO,
+  clearUsageLog,
+  formatCost,
+  getMonthlySpend,
+  getUsageLog,
+  summarizeUsage,
+} from '@/services/usage'
+
+const GROUPINGS: Record<UsageGrouping, string> = {
+  day: 'Per day',
+  problem: 'Per problem',
+  provider: 'Per provider',
+}
+
+/**
+ * Number of rows shown for a grouping.
+ */
+const MAX_ROWS = 10
+
+/**
+ * Returns a short label for a row of the usage view.
+ */
+const rowLabel = (grouping: UsageGrouping, key: string) => {
+  if (grouping === 'provider') return PROVIDERS[key as ProviderId] || key
+  if (grouping === 'problem') {
+    try {
+      const url = new URL(key)
+      return url.hostname + url.pathname.replace(/\/$/, '')
+    } catch {
+      return key
+    }
+  }
+  return key
+}
+
+/**
+ * Shows the tokens and estimated spend recorded by the chat, grouped per day,
+ * problem or provider, and lets the user set a monthly budget.
+ *
+ * @returns {React.ReactElement} - The usage view.
+ */
+const UsageView: React.FC = () => {
+  const [log, setLog] = useState<UsageRecord[]>([])
+  const [grouping, setGrouping] = useState<UsageGrouping>('day')
+  const [budget, setBudget] = useState<string>('')
+
+  useEffect(() => {
+    const { getUsageBudget } = useChromeStorage()
+    getUsageLog().then(setLog)
+    getUsageBudget().then((value) => setBudget(value ? String(value) : ''))
+  }, [])
+
+  const saveBudget = async () => {
+    const { setUsageBudget } = useChromeStorage()
+    const value = parseFloat(budget)
+    await setUsageBudget(value > 0 ? value : null)
+    setBudget(value > 0 ? String(value) : '')
+  }
+
+  const handleClear = async () => {
+    await clearUsageLog()
+    setLog([])
+  }
+
+  const spent = getMonthlySpend(log)
+  const limit = parseFloat(budget)
+  const rows: UsageSummary[] = summarizeUsage(log, grouping).slice(0, MAX_ROWS)
+
+  return (
+    <div className="mt-6 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Usage this month:{' '}
+          <span
+            className={
+              limit > 0 && spent >= limit * BUDGET_WARNING_RATIO
+                ? 'text-yellow-500'
+                : ''
+            }
+          >
+            {formatCost(spent)}
+            {limit > 0 && ` of ${formatCost(limit)}`}
+          </span>
+        </p>
+        <Button
+          variant="tertiary"
+          size="icon"
+          disabled={log.length === 0}
+          onClick={handleClear}
+        >
+          <Trash2 size={14} />
+          <span className="sr-only">Clear usage</span>
+        </Button>
+      </div>
+
+      <Input
+        type="number"
+        min="0"
+        step="0.01"
+        value={budget}
+        onChange={(e) => setBudget(e.target.value)}
+        onBlur={saveBudget}
+        placeholder="Monthly budget in USD (optional)"
+      />
+
+      <Select
+        value={grouping}
+        onValueChange={(v: UsageGrouping) => setGrouping(v)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(GROUPINGS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {rows.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No usage recorded yet.</p>
+      ) : (
+        rows.map((row) => (
+          <div
+            key={row.key}
+            className="flex items-center justify-between gap-2 rounded-md border border-input px-3 py-1"
+          >
+            <div className="min-w-0">
+              <p className="text-sm truncate">{rowLabel(grouping, row.key)}</p>
+              <p className="text-xs text-muted-foreground">
+                {row.requests} requests ·{' '}
+                {(row.promptTokens + row.completionTokens).toLocaleString()}{' '}
+                tokens
+              </p>
+            </div>
+            <p className="text-sm whitespace-nowrap">
+              {formatCost(row.cost)}
+              {row.hasUnpricedUsage && '*'}
+            </p>
+          </div>
+        ))
+      )}
+      {rows.some((row) => row.hasUnpricedUsage) && (
+        <p className="text-xs text-muted-foreground">
+          * includes models without a known price
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default UsageView
@@ -0,0 +1,50 @@
+import { CatalogModel } from '@/interface/catalog'
+
+/**
+ * Price of a model in USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+/**
+ * List prices of the hosted models, matched against the provider's model id.
+ * More specific ids come first. Custom endpoints are never priced.
+ */
+export const MODEL_PRICES: [RegExp, ModelPrice][] = [
+  [/^gpt-4o-mini/, { input: 0.15, output: 0.6 }],
+  [/^(gpt-4o|chatgpt-4o)/, { input: 2.5, output: 10 }],
+  [/^gpt-4\.1-nano/, { input: 0.1, output: 0.4 }],
+  [/^gpt-4\.1-mini/, { input: 0.4, output: 1.6 }],
+  [/^gpt-4\.1/, { input: 2, output: 8 }],
+  [/^gpt-4-turbo/, { input: 10, output: 30 }],
+  [/^gpt-4/, { input: 30, output: 60 }],
+  [/^gpt-3\.5-turbo/, { input: 0.5, output: 1.5 }],
+  [/^(o1-mini|o3-mini|o4-mini)/, { input: 1.1, output: 4.4 }],
+  [/^o1/, { input: 15, output: 60 }],
+  [/^o3/, { input: 2, output: 8 }],
+  [/^claude-3-haiku/, { input: 0.25, output: 1.25 }],
+  [/^claude-3-5-haiku/, { input: 0.8, output: 4 }],
+  [/^claude-(3-opus|opus)/, { input: 15, output: 75 }],
+  [/^claude-/, { input: 3, output: 15 }],
+  [
+    /^gemini-(1\.5|2\.0)-flash-lite|^gemini-1\.5-flash/,
+    { input: 0.075, output: 0.3 },
+  ],
+  [/^gemini-2\.0-flash/, { input: 0.1, output: 0.4 }],
+  [/^gemini-2\.5-flash/, { input: 0.3, output: 2.5 }],
+  [/^gemini-1\.5-pro/, { input: 1.25, output: 5 }],
+  [/^gemini-2\.5-pro/, { input: 1.25, output: 10 }],
+]
+
+/**
+ * Looks up the price of a model.
+ *
+ * @param {CatalogModel} model - The catalog entry.
+ * @returns {ModelPrice | undefined} The price, or `undefined` when it is unknown.
+ */
+export const getModelPrice = (model: CatalogModel): ModelPrice | undefined =>
+  model.provider === 'custom'
+    ? undefined
+    : MODEL_PRICES.find(([pattern]) => pattern.test(model.model))?.[1]
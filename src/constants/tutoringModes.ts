@@ -0,0 +1,65 @@
+import { TutoringMode } from '@/schema/modeOutput'
+
+/**
+ * How the chat presents a tutoring mode.
+ */
+interface TutoringModeDisplay {
+  label: string
+  description: string
+  /**
+   * Title of the accordion holding the hints.
+   */
+  hintsLabel: string
+  /**
+   * Whether answers may show the snippet accordion.
+   */
+  showSnippet: boolean
+  /**
+   * Whether the hints and the snippet are expanded by default.
+   */
+  expanded: boolean
+  inputPlaceholder: string
+}
+
+export const TUTORING_MODES: Record<TutoringMode, TutoringModeDisplay> = {
+  guided: {
+    label: 'Guided',
+    description: 'Step-by-step help with hints and small snippets',
+    hintsLabel: 'Hints 👀',
+    showSnippet: true,
+    expanded: false,
+    inputPlaceholder: 'Type your message...',
+  },
+  hint: {
+    label: 'Hint only',
+    description: 'Hints and questions, never any code',
+    hintsLabel: 'Hints 👀',
+    showSnippet: false,
+    expanded: false,
+    inputPlaceholder: 'Ask for a hint...',
+  },
+  socratic: {
+    label: 'Mock interview',
+    description: 'An interviewer who answers with questions',
+    hintsLabel: 'Follow-up questions 🎤',
+    showSnippet: false,
+    expanded: false,
+    inputPlaceholder: 'Answer the interviewer...',
+  },
+  review: {
+    label: 'Code review',
+    description: 'A blunt review of your code',
+    hintsLabel: 'Issues 🔍',
+    showSnippet: true,
+    expanded: true,
+    inputPlaceholder: 'Ask for a review...',
+  },
+  explain: {
+    label: 'Full explanation',
+    description: 'The complete approach and solution',
+    hintsLabel: 'Key insights 💡',
+    showSnippet: true,
+    expanded: true,
+    inputPlaceholder: 'Ask for an explanation...',
+  },
+}
@@ -1,25 +1,101 @@
+import { CatalogModel, ProviderId } from '@/interface/catalog'
+
 /**
- * List of valid models that can be used in the application.
+ * Bundled manifest of the models that ship with the extension. Providers can
+ * add more models at runtime through the model catalog.
  */
 export const VALID_MODELS = [
   {
     model: 'gpt-3.5-turbo',
     name: 'openai_3.5_turbo',
+    provider: 'openai',
     display: 'GPT-3.5 Turbo',
+    capabilities: {
+      contextWindow: 16_385,
+      structuredOutput: true,
+      vision: false,
+    },
   },
   {
     model: 'gpt-4o',
     name: 'openai_4o',
+    provider: 'openai',
     display: 'GPT-4 Optimized',
+    capabilities: {
+      contextWindow: 128_000,
+      structuredOutput: true,
+      vision: true,
+    },
   },
   {
     model: 'gemini-2.0-flash',
     name: 'gemini_2.0_flash',
+    provider: 'google',
     display: 'Gemini 2.0 Flash',
+    capabilities: {
+      contextWindow: 1_048_576,
+      structuredOutput: true,
+      vision: true,
+    },
+  },
+  {
+    model: 'claude-3-5-sonnet-latest',
+    name: 'anthropic_claude_3.5_sonnet',
+    provider: 'anthropic',
+    display: 'Claude 3.5 Sonnet',
+    capabilities: {
+      contextWindow: 200_000,
+      structuredOutput: true,
+      vision: true,
+    },
   },
-]
+] as const satisfies readonly (Omit<CatalogModel, 'name' | 'source'> & {
+  name: string
+})[]
+
+/**
+ * Type of the bundled models, derived from `VALID_MODELS` so both stay in sync.
+ */
+export type ValidModel = (typeof VALID_MODELS)[number]['name']
 
 /**
- * Type of valid models that can be used in the application.
+ * Id of a user-configured OpenAI-compatible endpoint, e.g. `custom:<uuid>`.
  */
-export type ValidModel = 'openai_3.5_turbo' | 'openai_4o' | 'gemini-2.0-flash'
+export type CustomModel = `custom:${string}`
+
+/**
+ * Id of a model discovered through a provider's models endpoint,
+ * e.g. `openai:gpt-4.1`.
+ */
+export type RemoteModel = `${Exclude<ProviderId, 'custom'>}:${string}`
+
+/**
+ * Any model that can be selected: bundled, discovered or custom.
+ */
+export type SelectableModel = ValidModel | RemoteModel | CustomModel
+
+/**
+ * Display names of the providers.
+ */
+export const PROVIDERS: Record<ProviderId, string> = {
+  openai: 'OpenAI',
+  google: 'Google',
+  anthropic: 'Anthropic',
+  custom: 'Custom endpoints',
+}
+
+/**
+ * Returns the provider of a selectable model.
+ *
+ * @param {SelectableModel} name - The model id.
+ * @returns {ProviderId | undefined} The provider, or `undefined` for unknown ids.
+ */
+export const getModelProvider = (
+  name: SelectableModel
+): ProviderId | undefined => {
+  const bundled = VALID_MODELS.find((model) => model.name === name)
+  if (bundled) return bundled.provider
+
+  const prefix = name.split(':')[0]
+  return prefix in PROVIDERS ? (prefix as ProviderId) : undefined
+}
@@ -0,0 +1,168 @@
+import React from 'react'
+import { Copy } from 'lucide-react'
+import { Highlight, themes } from 'prism-react-renderer'
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from '@/components/ui/accordion'
+import { cn } from '@/lib/utils'
+import { MessageStatus, Roles } from '@/interface/chatHistory'
+import { GenerateResponsePartialType } from '@/interface/ModalInterface'
+import { TokenUsage } from '@/interface/usage'
+import { TUTORING_MODES } from '@/constants/tutoringModes'
+import { TutoringMode } from '@/schema/modeOutput'
+import { DEFAULT_TUTORING_MODE } from '@/services/tutoringModes'
+
+interface ChatMessageProps {
+  role: Roles
+  /**
+   * Either plain text or a (possibly partial) `outputSchema` object. Partial
+   * objects are rendered while a response is still streaming in.
+   */
+  content: string | GenerateResponsePartialType
+  status?: MessageStatus
+  /**
+   * Display name of the model that answered.
+   */
+  modelLabel?: string
+  /**
+   * Tokens spent on the answer.
+   */
+  usage?: TokenUsage
+  /**
+   * The tutoring mode of the answer, which titles the hints and hides the
+   * snippet in modes without code. Defaults to `guided`.
+   */
+  mode?: TutoringMode
+}
+
+/**
+ * Renders a single chat bubble with its feedback, hints and code snippet,
+ * as the tutoring mode presents them.
+ *
+ * @param {ChatMessageProps} props - The component properties.
+ * @returns {React.ReactElement} - The rendered chat bubble.
+ */
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  role,
+  content,
+  status,
+  modelLabel,
+  usage,
+  mode = DEFAULT_TUTORING_MODE,
+}) => {
+  const display = TUTORING_MODES[mode]
+  const hints =
+    typeof content === 'string'
+      ? []
+      : (content.hints?.filter(Boolean) as string[] | undefined) || []
+
+  return (
+    <div
+      className={cn(
+        'flex w-max max-w-[75%] flex-col gap-2 px-3 py-2 text-sm my-4',
+        role === 'user'
+          ? 'ml-auto bg-primary text-primary-foreground rounded-bl-lg rounded-tl-lg rounded-tr-lg '
+          : 'bg-muted rounded-br-lg rounded-tl-lg rounded-tr-lg'
+      )}
+    >
+      <>
+        <p className="max-w-80">
+          {typeof content === 'string' ? content : content.feedback}
+        </p>
+
+        {!(typeof content === 'string') && (
+          <Accordion
+            type="multiple"
+            defaultValue={display.expanded ? ['item-1', 'item-2'] : []}
+          >
+            {hints.length > 0 && (
+              <AccordionItem value="item-1" className="max-w-80">
+                <AccordionTrigger>{display.hintsLabel}</AccordionTrigger>
+                <AccordionContent>
+                  <ul className="space-y-4">
+                    {hints.map((e) => (
+                      <li key={e}>{e}</li>
+                    ))}
+                  </ul>
+                </AccordionContent>
+              </AccordionItem>
+            )}
+            {display.showSnippet && content.snippet && (
+              <AccordionItem value="item-2" className="max-w-80">
+                <AccordionTrigger>Code 🧑🏻‍💻</AccordionTrigger>
+
+                <AccordionContent>
+                  <div className="mt-4 rounded-md">
+                    <div className="relative">
+                      <Copy
+                        onClick={() => {
+                          navigator.clipboard.writeText(`${content.snippet}`)
+                        }}
+                        className="absolute right-2 top-2 h-4 w-4"
+                      />
+                      <Highlight
+                        theme={themes.dracula}
+                        code={content.snippet || ''}
+                        language={
+                          content.programmingLanguage?.toLowerCase() ||
+                          'javascript'
+                        }
+                      >
+                        {({
+                          className,
+                          style,
+                          tokens,
+                          getLineProps,
+                          getTokenProps,
+                        }) => (
+                          <pre
+                            style={style}
+                            className={cn(className, 'p-3 rounded-md')}
+                          >
+                            {tokens.map((line, i) => (
+                              <div key={i} {...getLineProps({ line })}>
+                                {line.map((token, key) => (
+                                  <span
+                                    key={key}
+                                    {...getTokenProps({ token })}
+                                  />
+                                ))}
+                              </div>
+                            ))}
+                          </pre>
+                        )}
+                      </Highlight>
+                    </div>
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            )}
+          </Accordion>
+        )}
+
+        {(modelLabel || usage) && (
+          <span className="text-xs text-muted-foreground">
+            {[
+              modelLabel,
+              usage &&
+                `${(usage.promptTokens + usage.completionTokens).toLocaleString()} tokens`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </span>
+        )}
+
+        {status === 'cancelled' && (
+          <span className="text-xs italic text-muted-foreground">
+            Stopped by user
+          </span>
+        )}
+      </>
+    </div>
+  )
+}
+
+export default ChatMessage
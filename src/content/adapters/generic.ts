@@ -0,0 +1,26 @@
+import { SiteAdapter } from '@/interface/siteAdapter'
+import {
+  getDeDupedFullText,
+  getPageDescription,
+  getPageTitle,
+  initializePageExtraction,
+} from '@/services/pageExtractor'
+
+/**
+ * Reads the title, the description and the text of any page.
+ */
+export const genericAdapter: SiteAdapter = {
+  id: 'generic',
+  matches: [/.*/],
+
+  getContext: async () => ({
+    problemStatement: [getPageTitle(), getPageDescription()]
+      .filter(Boolean)
+      .join('\n'),
+    programmingLanguage: 'UNKNOWN',
+    extractedCode: '',
+    pageContent: getDeDupedFullText(),
+  }),
+
+  initialize: () => initializePageExtraction().stop,
+}
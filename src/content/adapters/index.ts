@@ -0,0 +1,36 @@
+import { PageContext } from '@/interface/messages'
+import { SiteAdapter } from '@/interface/siteAdapter'
+import { genericAdapter } from './generic'
+import { leetCodeAdapter } from './leetcode'
+import { youTubeAdapter } from './youtube'
+
+/**
+ * Every site adapter, most specific first. The generic adapter matches every
+ * page and must stay last.
+ */
+export const SITE_ADAPTERS: SiteAdapter[] = [
+  leetCodeAdapter,
+  youTubeAdapter,
+  genericAdapter,
+]
+
+/**
+ * Finds the adapter that handles a URL.
+ *
+ * @param {string} url - The URL of the page.
+ * @returns {SiteAdapter}
+ */
+export const getSiteAdapter = (url: string): SiteAdapter =>
+  SITE_ADAPTERS.find((adapter) =>
+    adapter.matches.some((pattern) => pattern.test(url))
+  ) || genericAdapter
+
+/**
+ * Reads the context of the current page with the adapter of its site.
+ *
+ * @returns {Promise<PageContext>}
+ */
+export const readPageContext = async (): Promise<PageContext> => ({
+  ...(await getSiteAdapter(window.location.href).getContext()),
+  pageUrl: window.location.href,
+})
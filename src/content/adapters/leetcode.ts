@@ -0,0 +1,37 @@
+import { SiteAdapter } from '@/interface/siteAdapter'
+import { injectEditorBridge, readEditorContent } from '../editorBridge'
+import { formatProblem, parseLeetCodeProblem } from '../leetcodeProblem'
+
+/**
+ * The button of the editor that shows and switches the language.
+ */
+const LANGUAGE_BUTTON_SELECTOR =
+  'button.rounded.items-center.whitespace-nowrap.inline-flex.bg-transparent.dark\\:bg-dark-transparent.text-text-secondary.group'
+
+/**
+ * Reads the parsed problem and the code of the Monaco editor from LeetCode
+ * problem pages.
+ */
+export const leetCodeAdapter: SiteAdapter = {
+  id: 'leetcode',
+  matches: [/^https:\/\/(www\.)?leetcode\.(com|cn)\/problems\//],
+
+  getContext: async () => {
+    const editor = await readEditorContent()
+    const problem = parseLeetCodeProblem(window.location.href)
+    return {
+      problemStatement: problem ? formatProblem(problem) : '',
+      programmingLanguage:
+        editor.language ||
+        document.querySelector(LANGUAGE_BUTTON_SELECTOR)?.textContent ||
+        'UNKNOWN',
+      extractedCode: editor.code,
+      problem: problem || undefined,
+    }
+  },
+
+  initialize: () => {
+    injectEditorBridge()
+    return () => undefined
+  },
+}
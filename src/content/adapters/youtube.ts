@@ -0,0 +1,73 @@
+import { SiteAdapter } from '@/interface/siteAdapter'
+import {
+  fetchTranscript,
+  getCurrentVideoId,
+  getPlayerResponse,
+  initializeYouTubeHandling,
+} from '@/services/youtubeHandler'
+import { persistentLogger } from '@/utils/logger'
+
+/**
+ * Transcripts by video id, so asking again about a video does not refetch
+ * its transcript.
+ */
+const transcripts = new Map<string, string | null>()
+
+const PLAYER_RESPONSE_PATTERN = /ytInitialPlayerResponse\s*=\s*({.*?});/s
+
+/**
+ * Returns the player response of a video, or null when it can't be read.
+ * After a navigation inside YouTube the page still holds the player response
+ * of the first video, so the watch page of the video is fetched instead.
+ *
+ * @param {string} videoId - The video.
+ * @returns {Promise<any | null>}
+ */
+const getVideoPlayerResponse = async (videoId: string) => {
+  const current = getPlayerResponse()
+  if (current?.videoDetails?.videoId === videoId) return current
+
+  try {
+    const response = await fetch(`/watch?v=${encodeURIComponent(videoId)}`)
+    const match = (await response.text()).match(PLAYER_RESPONSE_PATTERN)
+    const fetched = match ? JSON.parse(match[1]) : null
+    return fetched?.videoDetails?.videoId === videoId ? fetched : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the title and the transcript of YouTube videos.
+ */
+export const youTubeAdapter: SiteAdapter = {
+  id: 'youtube',
+  matches: [/^https:\/\/(www\.|m\.)?youtube\.com\//],
+
+  getContext: async () => {
+    const videoId = getCurrentVideoId()
+    if (videoId && !transcripts.has(videoId)) {
+      const playerResponse = await getVideoPlayerResponse(videoId)
+      // Without the player response of this video, try again next time
+      if (playerResponse) {
+        transcripts.set(videoId, await fetchTranscript(playerResponse))
+      }
+    }
+
+    const transcript = videoId ? transcripts.get(videoId) : null
+    return {
+      problemStatement: document.title,
+      programmingLanguage: 'UNKNOWN',
+      extractedCode: '',
+      pageContent: transcript ? `Video transcript: ${transcript}` : undefined,
+    }
+  },
+
+  initialize: () => {
+    persistentLogger.log('YouTube detected, initializing YouTube handler...')
+    const timeout = setTimeout(() => {
+      initializeYouTubeHandling()
+    }, 2500)
+    return () => clearTimeout(timeout)
+  },
+}
@@ -2,31 +2,65 @@ import React, { useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import {
   Bot,
-  Copy,
+  Download,
   EllipsisVertical,
   Eraser,
+  FileText,
+  Pencil,
+  Plus,
   Send,
   Settings,
+  Square,
+  Trash2,
+  Upload,
 } from 'lucide-react'
-import { Highlight, themes } from 'prism-react-renderer'
 import { Input } from '@/components/ui/input'
-import { SYSTEM_PROMPT } from '@/constants/prompt'
-import { extractCode } from './util'
-import { initializeYouTubeHandling } from '../services/youtubeHandler'
-import { initializePageExtraction } from '../services/pageExtractor'
-import { persistentLogger } from '../utils/logger'
-import {
-  Accordion,
-  AccordionContent,
-  AccordionItem,
-  AccordionTrigger,
-} from '@/components/ui/accordion'
-import { cn } from '@/lib/utils'
+import { getSiteAdapter, readPageContext } from './adapters'
+import { resolveConversationKey } from '@/lib/conversationKey'
 import { Card, CardContent, CardFooter } from '@/components/ui/card'
-import { ModalService } from '@/services/ModalService'
+import { GenerateResponsePartialType } from '@/interface/ModalInterface'
+import ChatMessage from './ChatMessage'
 import { useChromeStorage } from '@/hooks/useChromeStorage'
-import { ChatHistory, parseChatHistory } from '@/interface/chatHistory'
-import { VALID_MODELS, ValidModel } from '@/constants/valid_modals'
+import {
+  ChatHistory,
+  ChatThread,
+  StoredChatMessage,
+} from '@/interface/chatHistory'
+import { PROVIDERS, SelectableModel } from '@/constants/valid_modals'
+import { CatalogModel } from '@/interface/catalog'
+import { useModelCatalog } from '@/hooks/useModelCatalog'
+import { useModelSettings } from '@/hooks/useModelSettings'
+import {
+  describeCapabilities,
+  findModel,
+  groupByProvider,
+} from '@/services/ModelCatalog'
+import {
+  getPromptTemplates,
+  getThreadTemplateId,
+  setThreadTemplateId,
+} from '@/services/promptTemplates'
+import { PromptTemplate } from '@/interface/promptTemplate'
+import { TUTORING_MODES } from '@/constants/tutoringModes'
+import { TutoringMode } from '@/schema/modeOutput'
+import {
+  DEFAULT_TUTORING_MODE,
+  getThreadTutoringMode,
+  setThreadTutoringMode,
+} from '@/services/tutoringModes'
+import { createMessageBus } from '@/lib/messageBus'
+import {
+  BUDGET_WARNING_RATIO,
+  formatCost,
+  getMonthlySpend,
+  getUsageLog,
+} from '@/services/usage'
+import {
+  openPopup,
+  requestGeneration,
+  takePendingResults,
+  toAssistantMessage,
+} from './generationClient'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import {
   Select,
@@ -38,8 +72,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { LIMIT_VALUE } from '@/lib/indexedDB'
+import { DEFAULT_THREAD_TITLE, LIMIT_VALUE } from '@/lib/indexedDB'
 import { useIndexDB } from '@/hooks/useIndexDB'
+import {
+  downloadConversations,
+  EXPORT_FORMATS,
+  ExportFormat,
+  parseConversationImport,
+} from '@/lib/conversationExport'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -57,56 +97,62 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 
+/**
+ * Value of the template picker that follows the template of the site.
+ */
+const SITE_TEMPLATE = 'site'
+
 interface ChatBoxProps {
   visible: boolean
-  context: {
-    problemStatement: string
-  }
-  model: ValidModel
-  apikey: string
-  heandelModel: (v: ValidModel) => void
-  selectedModel: ValidModel | undefined
+  model: CatalogModel
+  heandelModel: (v: SelectableModel) => void
+  selectedModel: SelectableModel | undefined
+  catalog: CatalogModel[]
 }
 
 const ChatBox: React.FC<ChatBoxProps> = ({
-  context,
   visible,
   model,
-  apikey,
   heandelModel,
   selectedModel,
+  catalog,
 }) => {
   const [value, setValue] = React.useState('')
-  const [chatHistory, setChatHistory] = React.useState<ChatHistory[]>([])
-  const [priviousChatHistory, setPreviousChatHistory] = React.useState<
-    ChatHistory[]
-  >([])
+  const [chatHistory, setChatHistory] = React.useState<StoredChatMessage[]>([])
   const [isResponseLoading, setIsResponseLoading] =
     React.useState<boolean>(false)
+  const [streamingResponse, setStreamingResponse] =
+    React.useState<GenerateResponsePartialType | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [budgetNotice, setBudgetNotice] = React.useState<string | null>(null)
   // const chatBoxRef = useRef<HTMLDivElement>(null)
 
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const lastMessageRef = useRef<HTMLDivElement>(null)
 
-  const [offset, setOffset] = React.useState<number>(0)
-  const [totalMessages, setTotalMessages] = React.useState<number>(0)
+  const [nextCursor, setNextCursor] = React.useState<number | null>(null)
   const [isPriviousMsgLoading, setIsPriviousMsgLoading] =
     React.useState<boolean>(false)
-  const { fetchChatHistory, saveChatHistory } = useIndexDB()
-
-  // TODO:  BUG:
-  const getUrlName = () => {
-    // The instruction is to extract the URL from all websites, including LeetCode.
-    // window.location.href already provides the full URL of the current page.
-    // This fulfills the requirement for all websites.
-    const url = window.location.href;
-    console.log(url);
-    
-    return url;
-  };
-  
-  const problemName = getUrlName()
+  const {
+    fetchThreads,
+    createThread,
+    appendMessages,
+    fetchMessagePage,
+    fetchAllMessages,
+    fetchConversationSummary,
+    saveConversationSummary,
+  } = useIndexDB()
+
+  // Every URL of the same problem, video or page shares one conversation
+  const problemName = resolveConversationKey(window.location.href)
+  const [threads, setThreads] = React.useState<ChatThread[]>([])
+  const [threadId, setThreadId] = React.useState<string | null>(null)
+  const activeThread = threads.find((thread) => thread.id === threadId)
   const inputFieldRef = useRef<HTMLInputElement>(null)
+  const importFileRef = useRef<HTMLInputElement>(null)
+  const [templates, setTemplates] = React.useState<PromptTemplate[]>([])
+  const [templateId, setTemplateId] = React.useState<string | null>(null)
+  const [mode, setMode] = React.useState<TutoringMode>(DEFAULT_TUTORING_MODE)
 
   useEffect(() => {
     if (lastMessageRef.current && !isPriviousMsgLoading) {
@@ -115,137 +161,342 @@ const ChatBox: React.FC<ChatBoxProps> = ({
     setTimeout(() => {
       inputFieldRef.current?.focus()
     }, 0)
-  }, [chatHistory, isResponseLoading, visible])
+  }, [chatHistory, isResponseLoading, streamingResponse, visible])
 
   const heandelClearChat = async () => {
+    if (!threadId) return
     const { clearChatHistory } = useIndexDB()
-    await clearChatHistory(problemName)
+    await clearChatHistory(threadId)
     setChatHistory([])
-    setPreviousChatHistory([])
+    setNextCursor(null)
+  }
+
+  const handleNewThread = async () => {
+    const thread = await createThread(problemName, undefined, document.title)
+    setThreads((prev) => [thread, ...prev])
+    setThreadId(thread.id)
+  }
+
+  const handleRenameThread = async () => {
+    if (!activeThread) return
+    const title = window.prompt('Thread name', activeThread.title)?.trim()
+    if (!title) return
+
+    const { renameThread } = useIndexDB()
+    await renameThread(activeThread.id, title)
+    setThreads(await fetchThreads(problemName))
+  }
+
+  const handleDeleteThread = async () => {
+    if (
+      !activeThread ||
+      !window.confirm(`Delete "${activeThread.title}" and all its messages?`)
+    ) {
+      return
+    }
+
+    const { deleteThread } = useIndexDB()
+    await deleteThread(activeThread.id)
+    await loadThreads()
   }
 
   /**
-   * Handles the generation of an AI response.
-   *
-   * This function performs the following steps:
-   * 1. Initializes a new instance of `ModalService`.
-   * 2. Selects a modal using the provided model and API key.
-   * 3. Determines the programming language from the UI.
-   * 4. Extracts the user's current code from the document.
-   * 5. Modifies the system prompt with the problem statement, programming language, and extracted code.
-   * 6. Generates a response using the modified system prompt.
-   * 7. Updates the chat history with the generated response or error message.
-   * 8. Scrolls the chat box into view.
-   *
-   * @async
-   * @function handleGenerateAIResponse
-   * @returns {Promise<void>} A promise that resolves when the AI response generation is complete.
+   * Reads the templates and the one the thread picked, whenever the menu
+   * opens, as they are edited in the popup.
    */
+  const loadPromptTemplates = async () => {
+    setTemplates(await getPromptTemplates())
+    if (threadId) setTemplateId((await getThreadTemplateId(threadId)) || null)
+  }
 
-  // TODO:  BUG:
-  const handleGenerateAIResponse = async (): Promise<void> => {
-    const modalService = new ModalService()
+  // Without a thread yet, the picks are stored with the thread once the first
+  // message creates it.
+  const handlePickTemplate = async (value: string) => {
+    const picked = value === SITE_TEMPLATE ? null : value
+    if (threadId) await setThreadTemplateId(threadId, picked)
+    setTemplateId(picked)
+  }
 
-    modalService.selectModal(model, apikey)
+  const handlePickMode = async (value: string) => {
+    if (threadId) await setThreadTutoringMode(threadId, value as TutoringMode)
+    setMode(value as TutoringMode)
+  }
 
-    let programmingLanguage = 'UNKNOWN'
+  const handleExport = async (format: ExportFormat) => {
+    if (!threadId) return
+    const { exportConversations } = useIndexDB()
+    downloadConversations(await exportConversations([threadId]), format)
+  }
 
-    const changeLanguageButton = document.querySelector(
-      'button.rounded.items-center.whitespace-nowrap.inline-flex.bg-transparent.dark\\:bg-dark-transparent.text-text-secondary.group'
+  /**
+   * Merges the conversations of a JSON file into the history and opens the
+   * imported thread of this page, if any.
+   */
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const { error, success } = parseConversationImport(
+      await file.text(),
+      problemName
     )
-    if (changeLanguageButton) {
-      if (changeLanguageButton.textContent)
-        programmingLanguage = changeLanguageButton.textContent
+    if (!success) {
+      window.alert(`Could not import ${file.name}. ${error}`)
+      return
     }
-    const userCurrentCodeContainer = document.querySelectorAll('.view-line')
 
-    const extractedCode = extractCode(userCurrentCodeContainer)
+    const { importConversations } = useIndexDB()
+    await importConversations(success)
+    setThreads(await fetchThreads(problemName))
 
-    const systemPromptModified = SYSTEM_PROMPT.replace(
-      /{{problem_statement}}/gi,
-      context.problemStatement
+    const imported = success.threads.find(
+      (thread) => thread.problemName === problemName
     )
-      .replace(/{{programming_language}}/g, programmingLanguage)
-      .replace(/{{user_code}}/g, extractedCode)
-
-    const PCH = parseChatHistory(chatHistory)
-
-    const { error, success } = await modalService.generate({
-      prompt: `${value}`,
-      systemPrompt: systemPromptModified,
-      messages: PCH,
-      extractedCode: extractedCode,
-    })
-
-    if (error) {
-      const errorMessage: ChatHistory = {
-        role: 'assistant',
-        content: error.message,
+    if (!imported) {
+      window.alert(
+        `Imported ${success.threads.length} conversation(s) of other pages. Find them in the chat history.`
+      )
+    } else if (imported.id === threadId) {
+      await loadInitialChatHistory(imported.id)
+    } else {
+      setThreadId(imported.id)
+    }
+  }
+
+  /**
+   * Saves a message to a thread and shows it in the chat box.
+   *
+   * @param {string} threadId - The thread.
+   * @param {ChatHistory} message - The message to append.
+   * @returns {Promise<boolean>} Whether the thread still exists.
+   */
+  const appendMessage = async (threadId: string, message: ChatHistory) => {
+    const stored = await appendMessages(threadId, [message])
+    setChatHistory((prev) => [...prev, ...stored])
+    lastMessageRef.current?.scrollIntoView({ behavior: 'smooth' })
+    return stored.length > 0
+  }
+
+  /**
+   * Stops the in-flight AI request, if any.
+   */
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  /**
+   * Checks this month's spend against the user's budget before a request is
+   * sent. Past the budget the user has to confirm, close to it a notice is
+   * shown.
+   *
+   * @returns {Promise<boolean>} Whether the request may be sent.
+   */
+  const confirmBudget = async (): Promise<boolean> => {
+    const { getUsageBudget } = useChromeStorage()
+    const budget = await getUsageBudget()
+    if (!budget) {
+      setBudgetNotice(null)
+      return true
+    }
+
+    const spent = getMonthlySpend(await getUsageLog())
+    if (spent >= budget) {
+      return window.confirm(
+        `You have spent ${formatCost(spent)} of your ${formatCost(budget)} monthly budget. Send anyway?`
+      )
+    }
+    setBudgetNotice(
+      spent >= budget * BUDGET_WARNING_RATIO
+        ? `${formatCost(spent)} of your ${formatCost(budget)} monthly budget used`
+        : null
+    )
+    return true
+  }
+
+  /**
+   * Handles the generation of an AI response.
+   *
+   * This function performs the following steps:
+   * 1. Reads the problem, the code, its language and the page context with
+   *    the adapter of the current site.
+   * 2. Sends the prompt, the page context and the stored conversation to the
+   *    background service worker, which calls the model.
+   * 3. Renders partial objects as they arrive, restarting when the background
+   *    falls back to another model.
+   * 4. Stores the new conversation summary, if any, and updates the chat history
+   *    with the validated response, error message or cancelled turn.
+   * 5. Scrolls the chat box into view.
+   *
+   * @async
+   * @function handleGenerateAIResponse
+   * @param {string} threadId - The thread that asks.
+   * @param {string} prompt - The user's message, already stored.
+   * @param {ChatHistory[]} history - The messages before the prompt.
+   * @returns {Promise<void>} A promise that resolves when the AI response generation is complete.
+   */
+  const handleGenerateAIResponse = async (
+    threadId: string,
+    prompt: string,
+    history: ChatHistory[]
+  ): Promise<void> => {
+    try {
+      const pageContext = await readPageContext()
+
+      const abortController = new AbortController()
+      abortControllerRef.current = abortController
+      let lastPartial = null as GenerateResponsePartialType | null
+
+      const generation = requestGeneration(
+        {
+          problemName,
+          threadId,
+          model: model.name,
+          prompt,
+          mode,
+          context: pageContext,
+          history,
+          summary: await fetchConversationSummary(threadId),
+        },
+        {
+          onPartial: (partial) => {
+            lastPartial = partial
+            setStreamingResponse(partial)
+          },
+          onAttempt: () => {
+            lastPartial = null
+            setStreamingResponse(null)
+          },
+        }
+      )
+      abortController.signal.addEventListener('abort', generation.abort)
+
+      const result = await generation.result
+
+      if (result.summary) {
+        await saveConversationSummary(threadId, result.summary)
       }
-      await saveChatHistory(problemName, [
-        ...priviousChatHistory,
-        { role: 'user', content: value },
-        errorMessage,
-      ])
-      setPreviousChatHistory((prev) => [...prev, errorMessage])
-      setChatHistory((prev) => {
-        const updatedChatHistory: ChatHistory[] = [...prev, errorMessage]
-        return updatedChatHistory
-      })
-      lastMessageRef.current?.scrollIntoView({ behavior: 'smooth' })
+
+      if (abortController.signal.aborted) {
+        await appendMessage(threadId, {
+          role: 'assistant',
+          content: lastPartial?.feedback || 'Response cancelled.',
+          status: 'cancelled',
+          mode,
+        })
+      } else {
+        await appendMessage(threadId, toAssistantMessage(result, mode))
+        if (result.success) setValue('')
+      }
+    } finally {
+      abortControllerRef.current = null
+      setStreamingResponse(null)
+      setTimeout(() => {
+        inputFieldRef.current?.focus()
+      }, 0)
     }
+  }
 
-    if (success) {
-      const res: ChatHistory = {
-        role: 'assistant',
-        content: success,
+  /**
+   * Stores the answers that arrived while the page was closed in the threads
+   * that asked, after the prompts stored when they were sent. Answers of
+   * threads deleted meanwhile go to the fallback thread, with their prompt.
+   *
+   * @param {ChatThread[]} threads - The threads of the problem.
+   * @param {Function} getFallbackThreadId - Returns the thread for orphaned answers.
+   * @returns {Promise<boolean>} Whether any answer was stored.
+   */
+  const savePendingResults = async (
+    threads: ChatThread[],
+    getFallbackThreadId: () => Promise<string>
+  ) => {
+    const pending = await takePendingResults(problemName)
+    for (const entry of pending) {
+      const isOrphaned = !threads.some((thread) => thread.id === entry.threadId)
+      const target = isOrphaned ? await getFallbackThreadId() : entry.threadId
+
+      if (entry.result.summary && !isOrphaned) {
+        await saveConversationSummary(target, entry.result.summary)
       }
-      await saveChatHistory(problemName, [
-        ...priviousChatHistory,
-        { role: 'user', content: value },
-        res,
+      await appendMessages(target, [
+        ...(isOrphaned
+          ? [{ role: 'user', content: entry.prompt } as ChatHistory]
+          : []),
+        toAssistantMessage(entry.result, entry.mode),
       ])
-      setPreviousChatHistory((prev) => [...prev, res])
-      setChatHistory((prev) => [...prev, res])
-      setValue('')
-      lastMessageRef.current?.scrollIntoView({ behavior: 'smooth' })
     }
+    return pending.length > 0
+  }
 
-    setIsResponseLoading(false)
-    setTimeout(() => {
-      inputFieldRef.current?.focus()
-    }, 0)
+  /**
+   * Loads the threads of the problem and opens the most recently updated one.
+   * A problem without threads gets its first one with its first message, so
+   * merely visiting a page stores nothing.
+   */
+  const loadThreads = async () => {
+    let list = await fetchThreads(problemName)
+    let fallbackThreadId = list[0]?.id
+    const getFallbackThreadId = async () => {
+      fallbackThreadId ??= (
+        await createThread(problemName, undefined, document.title)
+      ).id
+      return fallbackThreadId
+    }
+    if (await savePendingResults(list, getFallbackThreadId)) {
+      list = await fetchThreads(problemName)
+    }
+
+    setThreads(list)
+    setThreadId(list[0]?.id ?? null)
   }
 
-  const loadInitialChatHistory = async () => {
-    const { totalMessageCount, chatHistory, allChatHistory } =
-      await fetchChatHistory(problemName, LIMIT_VALUE, 0)
-    setPreviousChatHistory(allChatHistory || [])
+  /**
+   * Creates the first thread of the problem, with the template and mode
+   * picked before.
+   *
+   * @returns {Promise<ChatThread>} The new thread.
+   */
+  const startThread = async () => {
+    const thread = await createThread(problemName, undefined, document.title)
+    if (templateId) await setThreadTemplateId(thread.id, templateId)
+    await setThreadTutoringMode(thread.id, mode)
+    return thread
+  }
 
-    setTotalMessages(totalMessageCount)
-    setChatHistory(chatHistory)
-    setOffset(LIMIT_VALUE)
+  const loadInitialChatHistory = async (threadId: string) => {
+    const { messages, nextCursor } = await fetchMessagePage(
+      threadId,
+      LIMIT_VALUE
+    )
+    setChatHistory(messages)
+    setNextCursor(nextCursor)
   }
 
   useEffect(() => {
-    loadInitialChatHistory()
+    loadThreads()
   }, [problemName])
 
+  useEffect(() => {
+    if (!threadId) {
+      setChatHistory([])
+      setNextCursor(null)
+      setTemplateId(null)
+      setMode(DEFAULT_TUTORING_MODE)
+      return
+    }
+    loadInitialChatHistory(threadId)
+    getThreadTutoringMode(threadId).then(setMode)
+  }, [threadId])
+
   const loadMoreMessages = async () => {
-    if (totalMessages < offset) {
+    if (!threadId || nextCursor === null || isPriviousMsgLoading) {
       return
     }
     setIsPriviousMsgLoading(true)
-    const { chatHistory: moreMessages } = await fetchChatHistory(
-      problemName,
-      LIMIT_VALUE,
-      offset
-    )
+    const page = await fetchMessagePage(threadId, LIMIT_VALUE, nextCursor)
 
-    if (moreMessages.length > 0) {
-      setChatHistory((prev) => [...moreMessages, ...prev]) // Correctly merge the new messages with the previous ones
-      setOffset((prevOffset) => prevOffset + LIMIT_VALUE)
-    }
+    setChatHistory((prev) => [...page.messages, ...prev])
+    setNextCursor(page.nextCursor)
 
     setTimeout(() => {
       setIsPriviousMsgLoading(false)
@@ -261,16 +512,37 @@ const ChatBox: React.FC<ChatBoxProps> = ({
   }
 
   const onSendMessage = async (value: string) => {
-    setIsResponseLoading(true)
-    const newMessage: ChatHistory = { role: 'user', content: value }
+    let started: ChatThread | null = null
+    try {
+      if (!(await confirmBudget())) {
+        setValue(value)
+        return
+      }
 
-    setPreviousChatHistory((prev) => {
-      return [...prev, newMessage]
-    })
-    setChatHistory([...chatHistory, newMessage])
+      setIsResponseLoading(true)
+      let target = threadId
+      if (!target) {
+        started = await startThread()
+        target = started.id
+      }
+      // The model sees the history before the prompt, which it gets separately
+      const history = started ? [] : await fetchAllMessages(target)
+      if (!(await appendMessage(target, { role: 'user', content: value }))) {
+        return
+      }
 
-    lastMessageRef.current?.scrollIntoView({ behavior: 'smooth' })
-    handleGenerateAIResponse()
+      await handleGenerateAIResponse(target, value, history)
+    } catch (error: any) {
+      window.alert(`Could not get an answer. ${error.message}`)
+    } finally {
+      setIsResponseLoading(false)
+      // Opened only now, as opening it reloads the messages shown meanwhile.
+      const thread = started
+      if (thread) {
+        setThreads((prev) => [thread, ...prev])
+        setThreadId(thread.id)
+      }
+    }
   }
 
   if (!visible) return <></>
@@ -283,11 +555,55 @@ const ChatBox: React.FC<ChatBoxProps> = ({
             <Bot color="#000" className="h-6 w-6" />
           </div>
           <div>
-            <h3 className="font-bold text-lg">Need Help?</h3>
-            <h6 className="font-normal text-xs">Always online</h6>
+            <div className="flex items-center gap-2">
+              <h3 className="font-bold text-lg">Need Help?</h3>
+              <Select
+                value={mode}
+                onValueChange={handlePickMode}
+                disabled={isResponseLoading}
+              >
+                <SelectTrigger
+                  className="h-6 w-32 px-2 text-xs"
+                  title="Tutoring mode"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TUTORING_MODES) as TutoringMode[]).map(
+                    (value) => (
+                      <SelectItem key={value} value={value}>
+                        <span title={TUTORING_MODES[value].description}>
+                          {TUTORING_MODES[value].label}
+                        </span>
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <Select
+              value={threadId || undefined}
+              onValueChange={setThreadId}
+              disabled={isResponseLoading}
+            >
+              <SelectTrigger className="h-6 w-44 px-2 text-xs">
+                <SelectValue placeholder={DEFAULT_THREAD_TITLE} />
+              </SelectTrigger>
+              <SelectContent>
+                {threads.map((thread) => (
+                  <SelectItem key={thread.id} value={thread.id}>
+                    {thread.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </div>
-        <DropdownMenu>
+        <DropdownMenu
+          onOpenChange={(open) => {
+            if (open) loadPromptTemplates()
+          }}
+        >
           <DropdownMenuTrigger asChild>
             <Button variant="tertiary" size={'icon'}>
               <EllipsisVertical size={18} />
@@ -296,10 +612,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({
           <DropdownMenuContent className="w-56">
             <DropdownMenuLabel className="flex items-center">
               <Settings size={16} strokeWidth={1.5} className="mr-2" />{' '}
-              {
-                VALID_MODELS.find((model) => model.name === selectedModel)
-                  ?.display
-              }
+              {findModel(catalog, selectedModel)?.display}
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
             <DropdownMenuGroup>
@@ -311,14 +624,54 @@ const ChatBox: React.FC<ChatBoxProps> = ({
                   <DropdownMenuSubContent>
                     <DropdownMenuRadioGroup
                       value={selectedModel}
-                      onValueChange={(v) => heandelModel(v as ValidModel)}
+                      onValueChange={(v) => heandelModel(v as SelectableModel)}
                     >
-                      {VALID_MODELS.map((modelOption) => (
+                      {groupByProvider(catalog).map(([provider, models]) => (
+                        <React.Fragment key={provider}>
+                          <DropdownMenuLabel className="text-xs text-muted-foreground">
+                            {PROVIDERS[provider]}
+                          </DropdownMenuLabel>
+                          {models.map((modelOption) => (
+                            <DropdownMenuRadioItem
+                              key={modelOption.name}
+                              value={modelOption.name}
+                            >
+                              {modelOption.display}
+                              <DropdownMenuShortcut>
+                                {describeCapabilities(modelOption)}
+                              </DropdownMenuShortcut>
+                            </DropdownMenuRadioItem>
+                          ))}
+                        </React.Fragment>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuPortal>
+              </DropdownMenuSub>
+            </DropdownMenuGroup>
+            <DropdownMenuGroup>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FileText size={16} strokeWidth={1.5} /> Prompt Template
+                </DropdownMenuSubTrigger>
+                <DropdownMenuPortal>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup
+                      value={templateId || SITE_TEMPLATE}
+                      onValueChange={handlePickTemplate}
+                    >
+                      <DropdownMenuRadioItem value={SITE_TEMPLATE}>
+                        Default of this site
+                      </DropdownMenuRadioItem>
+                      {templates.map((template) => (
                         <DropdownMenuRadioItem
-                          key={modelOption.name}
-                          value={modelOption.name}
+                          key={template.id}
+                          value={template.id}
                         >
-                          {modelOption.display}
+                          {template.name}
+                          <DropdownMenuShortcut>
+                            v{template.version}
+                          </DropdownMenuShortcut>
                         </DropdownMenuRadioItem>
                       ))}
                     </DropdownMenuRadioGroup>
@@ -327,6 +680,52 @@ const ChatBox: React.FC<ChatBoxProps> = ({
               </DropdownMenuSub>
             </DropdownMenuGroup>
             <DropdownMenuSeparator />
+            <DropdownMenuGroup>
+              <DropdownMenuItem
+                onClick={handleNewThread}
+                disabled={isResponseLoading}
+              >
+                <Plus size={14} strokeWidth={1.5} /> New Thread
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleRenameThread}>
+                <Pencil size={14} strokeWidth={1.5} /> Rename Thread
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={handleDeleteThread}
+                disabled={isResponseLoading}
+              >
+                <Trash2 size={14} strokeWidth={1.5} /> Delete Thread
+              </DropdownMenuItem>
+            </DropdownMenuGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuGroup>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Download size={14} strokeWidth={1.5} /> Export Thread
+                </DropdownMenuSubTrigger>
+                <DropdownMenuPortal>
+                  <DropdownMenuSubContent>
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(
+                      (format) => (
+                        <DropdownMenuItem
+                          key={format}
+                          onClick={() => handleExport(format)}
+                        >
+                          {EXPORT_FORMATS[format].label}
+                        </DropdownMenuItem>
+                      )
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuPortal>
+              </DropdownMenuSub>
+              <DropdownMenuItem
+                onClick={() => importFileRef.current?.click()}
+                disabled={isResponseLoading}
+              >
+                <Upload size={14} strokeWidth={1.5} /> Import JSON
+              </DropdownMenuItem>
+            </DropdownMenuGroup>
+            <DropdownMenuSeparator />
             <DropdownMenuItem
               onClick={heandelClearChat}
               onMouseEnter={(e) =>
@@ -339,6 +738,13 @@ const ChatBox: React.FC<ChatBoxProps> = ({
             </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <input
+          ref={importFileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
       </div>
       <CardContent className="p-2">
         {chatHistory.length > 0 ? (
@@ -347,7 +753,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({
             ref={scrollAreaRef}
             onScroll={handleScroll}
           >
-            {totalMessages > offset && (
+            {nextCursor !== null && (
               <div className="flex w-full items-center justify-center">
                 <Button
                   className="text-sm p-1 m-x-auto bg-transpernent text-white hover:bg-transpernent"
@@ -357,107 +763,32 @@ const ChatBox: React.FC<ChatBoxProps> = ({
                 </Button>
               </div>
             )}
-            {chatHistory.map((message, index) => (
-              <div
-                key={index}
-                className={cn(
-                  'flex w-max max-w-[75%] flex-col gap-2 px-3 py-2 text-sm my-4',
-                  message.role === 'user'
-                    ? 'ml-auto bg-primary text-primary-foreground rounded-bl-lg rounded-tl-lg rounded-tr-lg '
-                    : 'bg-muted rounded-br-lg rounded-tl-lg rounded-tr-lg'
-                )}
-              >
-                <>
-                  <p className="max-w-80">
-                    {typeof message.content === 'string'
-                      ? message.content
-                      : message.content.feedback}
-                  </p>
-
-                  {!(typeof message.content === 'string') && (
-                    <Accordion type="multiple">
-                      {message.content?.hints &&
-                        message.content.hints.length > 0 && (
-                          <AccordionItem value="item-1" className="max-w-80">
-                            <AccordionTrigger>Hints 👀</AccordionTrigger>
-                            <AccordionContent>
-                              <ul className="space-y-4">
-                                {message.content?.hints?.map((e) => (
-                                  <li key={e}>{e}</li>
-                                ))}
-                              </ul>
-                            </AccordionContent>
-                          </AccordionItem>
-                        )}
-                      {message.content?.snippet && (
-                        <AccordionItem value="item-2" className="max-w-80">
-                          <AccordionTrigger>Code 🧑🏻‍💻</AccordionTrigger>
-
-                          <AccordionContent>
-                            <div className="mt-4 rounded-md">
-                              <div className="relative">
-                                <Copy
-                                  onClick={() => {
-                                    if (typeof message.content !== 'string')
-                                      navigator.clipboard.writeText(
-                                        `${message.content?.snippet}`
-                                      )
-                                  }}
-                                  className="absolute right-2 top-2 h-4 w-4"
-                                />
-                                <Highlight
-                                  theme={themes.dracula}
-                                  code={message.content?.snippet || ''}
-                                  language={
-                                    message.content?.programmingLanguage?.toLowerCase() ||
-                                    'javascript'
-                                  }
-                                >
-                                  {({
-                                    className,
-                                    style,
-                                    tokens,
-                                    getLineProps,
-                                    getTokenProps,
-                                  }) => (
-                                    <pre
-                                      style={style}
-                                      className={cn(
-                                        className,
-                                        'p-3 rounded-md'
-                                      )}
-                                    >
-                                      {tokens.map((line, i) => (
-                                        <div
-                                          key={i}
-                                          {...getLineProps({ line })}
-                                        >
-                                          {line.map((token, key) => (
-                                            <span
-                                              key={key}
-                                              {...getTokenProps({ token })}
-                                            />
-                                          ))}
-                                        </div>
-                                      ))}
-                                    </pre>
-                                  )}
-                                </Highlight>
-                              </div>
-                            </div>
-                          </AccordionContent>
-                        </AccordionItem>
-                      )}
-                    </Accordion>
-                  )}
-                </>
-              </div>
+            {chatHistory.map((message) => (
+              <ChatMessage
+                key={message.id}
+                role={message.role}
+                content={message.content}
+                status={message.status}
+                usage={message.usage}
+                mode={message.mode}
+                modelLabel={
+                  message.model &&
+                  (findModel(catalog, message.model)?.display || message.model)
+                }
+              />
             ))}
-            {isResponseLoading && (
-              <div className={'flex w-max max-w-[75%] flex-col my-2'}>
-                <div className="w-5 h-5 rounded-full animate-pulse bg-primary"></div>
-              </div>
-            )}
+            {isResponseLoading &&
+              (streamingResponse?.feedback ? (
+                <ChatMessage
+                  role="assistant"
+                  content={streamingResponse}
+                  mode={mode}
+                />
+              ) : (
+                <div className={'flex w-max max-w-[75%] flex-col my-2'}>
+                  <div className="w-5 h-5 rounded-full animate-pulse bg-primary"></div>
+                </div>
+              ))}
             <div ref={lastMessageRef} />
           </ScrollArea>
         ) : (
@@ -468,7 +799,10 @@ const ChatBox: React.FC<ChatBoxProps> = ({
           </div>
         )}
       </CardContent>
-      <CardFooter>
+      <CardFooter className="flex-col gap-2">
+        {budgetNotice && (
+          <p className="w-full text-xs text-yellow-500">{budgetNotice}</p>
+        )}
         <form
           onSubmit={(event) => {
             event.preventDefault()
@@ -480,7 +814,7 @@ const ChatBox: React.FC<ChatBoxProps> = ({
         >
           <Input
             id="message"
-            placeholder="Type your message..."
+            placeholder={TUTORING_MODES[mode].inputPlaceholder}
             className="flex-1"
             autoComplete="off"
             value={value}
@@ -489,15 +823,27 @@ const ChatBox: React.FC<ChatBoxProps> = ({
             required
             ref={inputFieldRef}
           />
-          <Button
-            type="submit"
-            className="bg-[#fafafa] rounded-lg text-black"
-            size="icon"
-            disabled={value.length === 0}
-          >
-            <Send className="h-4 w-4" />
-            <span className="sr-only">Send</span>
-          </Button>
+          {isResponseLoading ? (
+            <Button
+              type="button"
+              className="bg-[#fafafa] rounded-lg text-black"
+              size="icon"
+              onClick={handleStopGeneration}
+            >
+              <Square className="h-4 w-4" />
+              <span className="sr-only">Stop</span>
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              className="bg-[#fafafa] rounded-lg text-black"
+              size="icon"
+              disabled={value.length === 0}
+            >
+              <Send className="h-4 w-4" />
+              <span className="sr-only">Send</span>
+            </Button>
+          )}
         </form>
       </CardFooter>
     </Card>
@@ -507,12 +853,14 @@ const ChatBox: React.FC<ChatBoxProps> = ({
 const ContentPage: React.FC = () => {
   const [chatboxExpanded, setChatboxExpanded] = React.useState<boolean>(false)
 
-  const metaDescriptionEl = document.querySelector('meta[name=description]')
-  const problemStatement = metaDescriptionEl?.getAttribute('content') as string
-
-  const [modal, setModal] = React.useState<ValidModel | null | undefined>(null)
-  const [apiKey, setApiKey] = React.useState<string | null | undefined>(null)
-  const [selectedModel, setSelectedModel] = React.useState<ValidModel>()
+  const {
+    model: selectedModel,
+    hasKey,
+    locked: isVaultLocked,
+    selectModel,
+  } = useModelSettings()
+  const { models: catalog } = useModelCatalog()
+  const catalogModel = findModel(catalog, selectedModel)
 
   const ref = useRef<HTMLDivElement>(null)
 
@@ -532,53 +880,19 @@ const ContentPage: React.FC = () => {
       document.removeEventListener('click', handleDocumentClick)
     }
   }, [])
-  ;(async () => {
-    const { getKeyModel, selectModel } = useChromeStorage()
-    const { model, apiKey } = await getKeyModel(await selectModel())
-
-    setModal(model)
-    setApiKey(apiKey)
-  })()
-
-  const heandelModel = (v: ValidModel) => {
-    if (v) {
-      const { setSelectModel } = useChromeStorage()
-      setSelectModel(v)
-      setSelectedModel(v)
-    }
-  }
-
-  React.useEffect(() => {
-    const loadChromeStorage = async () => {
-      if (!chrome) return
 
-      const { selectModel } = useChromeStorage()
-
-      setSelectedModel(await selectModel())
-    }
-
-    loadChromeStorage()
-  }, [])
-
-  // Initialize YouTube handling and page extraction
-  React.useEffect(() => {
-    // Initialize page extraction for all websites
-    const pageExtraction = initializePageExtraction();
+  const heandelModel = (v: SelectableModel) => {
+    if (v) selectModel(v)
+  }
 
-    // Check if current page is YouTube
-    const isYouTube = window.location.hostname.includes('youtube.com');
-    if (isYouTube) {
-      persistentLogger.log('YouTube detected, initializing YouTube handler...');
-      setTimeout(() => {
-        initializeYouTubeHandling();
-      }, 2500);
-    }
+  // Let the adapter of the current site watch the page
+  React.useEffect(() => getSiteAdapter(window.location.href).initialize?.(), [])
 
-    // Cleanup function
-    return () => {
-      pageExtraction.stop();
-    };
-  }, []);
+  // Lets the popup preview prompt templates against this page
+  React.useEffect(
+    () => createMessageBus().handle('getPageContext', readPageContext),
+    []
+  )
 
   return (
     <div
@@ -590,7 +904,7 @@ const ContentPage: React.FC = () => {
         right: '30px',
       }}
     >
-      {!modal || !apiKey ? (
+      {!catalogModel || !hasKey ? (
         !chatboxExpanded ? null : (
           <>
             <Card className="mb-5">
@@ -604,14 +918,29 @@ const ContentPage: React.FC = () => {
                       </p>
                       <Button
                         onClick={() => {
-                          chrome.runtime.sendMessage({ action: 'openPopup' })
+                          openPopup()
                         }}
                       >
                         configure
                       </Button>
                     </>
                   )}
-                  {selectedModel && (
+                  {selectedModel && isVaultLocked && (
+                    <>
+                      <p className="text-center">
+                        Your API keys are locked. Unlock them with your
+                        passphrase in the extension popup.
+                      </p>
+                      <Button
+                        onClick={() => {
+                          openPopup()
+                        }}
+                      >
+                        unlock
+                      </Button>
+                    </>
+                  )}
+                  {selectedModel && !isVaultLocked && (
                     <>
                       <p>
                         We couldn't find any API key for selected model{' '}
@@ -621,25 +950,29 @@ const ContentPage: React.FC = () => {
                       </p>
                       <p>you can select another models</p>
                       <Select
-                        onValueChange={(v: ValidModel) => heandelModel(v)}
+                        onValueChange={(v: SelectableModel) => heandelModel(v)}
                         value={selectedModel}
                       >
                         <SelectTrigger className="w-56">
                           <SelectValue placeholder="Select a model" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectGroup>
-                            <SelectLabel>Model</SelectLabel>
-                            <SelectSeparator />
-                            {VALID_MODELS.map((modelOption) => (
-                              <SelectItem
-                                key={modelOption.name}
-                                value={modelOption.name}
-                              >
-                                {modelOption.display}
-                              </SelectItem>
-                            ))}
-                          </SelectGroup>
+                          {groupByProvider(catalog).map(
+                            ([provider, models], index) => (
+                              <SelectGroup key={provider}>
+                                {index > 0 && <SelectSeparator />}
+                                <SelectLabel>{PROVIDERS[provider]}</SelectLabel>
+                                {models.map((modelOption) => (
+                                  <SelectItem
+                                    key={modelOption.name}
+                                    value={modelOption.name}
+                                  >
+                                    {modelOption.display}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                            )
+                          )}
                         </SelectContent>
                       </Select>
                     </>
@@ -652,11 +985,10 @@ const ContentPage: React.FC = () => {
       ) : (
         <ChatBox
           visible={chatboxExpanded}
-          context={{ problemStatement }}
-          model={modal}
-          apikey={apiKey}
+          model={catalogModel}
           heandelModel={heandelModel}
           selectedModel={selectedModel}
+          catalog={catalog}
         />
       )}
       <div className="flex justify-end">
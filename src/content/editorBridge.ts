@@ -0,0 +1,91 @@
+import bridgeScript from './monacoBridge?script&module'
+import {
+  EDITOR_BRIDGE_SOURCE,
+  EditorContent,
+  EditorContentRequest,
+} from '@/interface/editorBridge'
+import { editorContentResponseSchema } from '@/schema/messages'
+import { extractCode } from './util'
+
+/**
+ * How long to wait for the bridge before reading the DOM instead.
+ */
+const BRIDGE_TIMEOUT_MS = 500
+
+let isInjected = false
+
+/**
+ * Injects the script that reads the Monaco editor from the page's main world,
+ * where content scripts can't see the `monaco` global. Injects once per page.
+ */
+export const injectEditorBridge = () => {
+  if (isInjected) return
+  isInjected = true
+
+  const script = document.createElement('script')
+  script.src = chrome.runtime.getURL(bridgeScript)
+  script.type = 'module'
+  document.head.prepend(script)
+}
+
+/**
+ * Asks the injected bridge for the editor content.
+ *
+ * @returns The content, or null when the page has no Monaco editor or the
+ * bridge did not answer in time.
+ */
+const requestFromBridge = () =>
+  new Promise<Omit<EditorContent, 'origin'> | null>((resolve) => {
+    const requestId = crypto.randomUUID()
+
+    const finish = (content: Omit<EditorContent, 'origin'> | null) => {
+      window.removeEventListener('message', onMessage)
+      clearTimeout(timeout)
+      resolve(content)
+    }
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window) return
+      const response = editorContentResponseSchema.safeParse(event.data)
+      if (response.success && response.data.requestId === requestId) {
+        finish(response.data.content)
+      }
+    }
+
+    const timeout = setTimeout(() => finish(null), BRIDGE_TIMEOUT_MS)
+    window.addEventListener('message', onMessage)
+
+    const request: EditorContentRequest = {
+      source: EDITOR_BRIDGE_SOURCE,
+      type: 'getEditorContent',
+      requestId,
+    }
+    window.postMessage(request, window.location.origin)
+  })
+
+/**
+ * Reads the lines Monaco renders, which are only the visible ones.
+ *
+ * @returns {EditorContent}
+ */
+const readFromDom = (): EditorContent => {
+  const editor = document.querySelector('.monaco-editor')
+  return {
+    code: editor ? extractCode(editor.querySelectorAll('.view-line')) : '',
+    language:
+      editor?.querySelector('[data-mode-id]')?.getAttribute('data-mode-id') ||
+      null,
+    origin: 'dom',
+  }
+}
+
+/**
+ * Reads the full text of the page's Monaco editor and its language mode,
+ * falling back to the rendered lines when the bridge is unavailable.
+ *
+ * @returns {Promise<EditorContent>}
+ */
+export const readEditorContent = async (): Promise<EditorContent> => {
+  const content = isInjected ? await requestFromBridge() : null
+  return content ? { ...content, origin: 'monaco' } : readFromDom()
+}
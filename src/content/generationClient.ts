@@ -0,0 +1,111 @@
+import { ChatHistory } from '@/interface/chatHistory'
+import { GenerateResponsePartialType } from '@/interface/ModalInterface'
+import {
+  GENERATE_PORT,
+  GeneratePortEvent,
+  GeneratePortRequest,
+  GenerateRequest,
+  GenerateResult,
+} from '@/interface/messages'
+import { SelectableModel } from '@/constants/valid_modals'
+import { createMessageBus } from '@/lib/messageBus'
+import { generatePortEventSchema } from '@/schema/messages'
+import { TutoringMode } from '@/schema/modeOutput'
+
+/**
+ * Sends a prompt to the background service worker and streams the answer
+ * back over a port.
+ *
+ * @param {Omit<GenerateRequest, 'type' | 'requestId'>} request - The prompt and its context.
+ * @param {Object} callbacks - Receive the progress of the generation.
+ * @param {Function} callbacks.onPartial - Called with every partial object received from the model.
+ * @param {Function} callbacks.onAttempt - Called whenever a model starts answering.
+ * @returns The final result and a function that stops the generation.
+ */
+export const requestGeneration = (
+  request: Omit<GenerateRequest, 'type' | 'requestId'>,
+  callbacks: {
+    onPartial: (partial: GenerateResponsePartialType) => void
+    onAttempt: (model: SelectableModel) => void
+  }
+): { result: Promise<GenerateResult>; abort: () => void } => {
+  const requestId = crypto.randomUUID()
+  const port = createMessageBus().connect<
+    GeneratePortRequest,
+    GeneratePortEvent
+  >(GENERATE_PORT, generatePortEventSchema)
+
+  const result = new Promise<GenerateResult>((resolve) => {
+    port.onMessage((event) => {
+      if (event.requestId !== requestId) return
+      switch (event.type) {
+        case 'attempt':
+          callbacks.onAttempt(event.model)
+          break
+        case 'partial':
+          callbacks.onPartial(event.partial)
+          break
+        case 'done':
+          resolve(event.result)
+          port.disconnect()
+          break
+      }
+    })
+    port.onDisconnect(() =>
+      resolve({
+        error: {
+          kind: 'unknown',
+          message: 'The extension stopped responding. Please try again.',
+        },
+        success: null,
+        model: null,
+      })
+    )
+  })
+
+  port.post({ type: 'generate', requestId, ...request })
+  return {
+    result,
+    abort: () => port.post({ type: 'abort', requestId }),
+  }
+}
+
+/**
+ * Asks the background to open the extension popup.
+ */
+export const openPopup = () => createMessageBus().request('openPopup', {})
+
+/**
+ * Collects the answers that arrived for a conversation while its page was
+ * closed.
+ *
+ * @param {string} problemName - The conversation.
+ * @returns {Promise<PendingResult[]>}
+ */
+export const takePendingResults = (problemName: string) =>
+  createMessageBus().request('takePendingResults', { problemName })
+
+/**
+ * Turns the result of a generation into the assistant message to store.
+ *
+ * @param {GenerateResult} result - The result sent by the background.
+ * @param {TutoringMode} mode - The tutoring mode the prompt was sent in.
+ * @returns {ChatHistory}
+ */
+export const toAssistantMessage = (
+  result: GenerateResult,
+  mode: TutoringMode
+): ChatHistory =>
+  result.success
+    ? {
+        role: 'assistant',
+        content: result.success,
+        model: result.model || undefined,
+        mode,
+        usage: result.usage,
+      }
+    : {
+        role: 'assistant',
+        content: result.error?.message || 'Something went wrong.',
+        status: 'error',
+      }
@@ -0,0 +1,191 @@
+import { z } from 'zod'
+import {
+  LeetCodeProblem,
+  ProblemDifficulty,
+  ProblemExample,
+} from '@/interface/leetcodeProblem'
+import { htmlToMarkdown } from '@/lib/htmlToMarkdown'
+
+/**
+ * The question fields found in the page data LeetCode renders into
+ * `__NEXT_DATA__`.
+ */
+const nextDataQuestionSchema = z.object({
+  titleSlug: z.string(),
+  title: z.string().optional(),
+  content: z.string().nullable().optional(),
+  difficulty: z.string().nullable().optional(),
+  topicTags: z
+    .array(z.object({ name: z.string() }))
+    .nullable()
+    .optional(),
+})
+
+type NextDataQuestion = z.infer<typeof nextDataQuestionSchema>
+
+/**
+ * Returns the problem slug of a LeetCode URL, e.g. `two-sum` for
+ * `https://leetcode.com/problems/two-sum/description/`.
+ *
+ * @param {string} url - The page URL.
+ * @returns {string | null} The slug, or null outside of problem pages.
+ */
+export const getProblemSlug = (url: string): string | null =>
+  url.match(/leetcode\.(?:com|cn)\/problems\/([^/?#]+)/)?.[1] || null
+
+/**
+ * Collects the fields of a question from the page data. LeetCode spreads them
+ * over several queries, and the data describes the problem the page was
+ * loaded with, which is stale after navigating to another problem.
+ */
+const getNextDataQuestion = (slug: string): Partial<NextDataQuestion> => {
+  const script = document.getElementById('__NEXT_DATA__')
+  if (!script?.textContent) return {}
+
+  let queries: unknown[] = []
+  try {
+    queries =
+      JSON.parse(script.textContent)?.props?.pageProps?.dehydratedState
+        ?.queries || []
+  } catch {
+    return {}
+  }
+
+  const question: Partial<NextDataQuestion> = {}
+  for (const query of queries) {
+    const parsed = nextDataQuestionSchema.safeParse(
+      (query as { state?: { data?: { question?: unknown } } })?.state?.data
+        ?.question
+    )
+    if (!parsed.success || parsed.data.titleSlug !== slug) continue
+    for (const [key, value] of Object.entries(parsed.data)) {
+      if (value !== null && value !== undefined) {
+        Object.assign(question, { [key]: value })
+      }
+    }
+  }
+  return question
+}
+
+const toDifficulty = (
+  value: string | null | undefined
+): ProblemDifficulty | null => {
+  const difficulty = value?.trim().toLowerCase()
+  if (difficulty === 'easy') return 'Easy'
+  if (difficulty === 'medium') return 'Medium'
+  if (difficulty === 'hard') return 'Hard'
+  return null
+}
+
+/**
+ * Reads the examples of a statement. LeetCode writes them either as `pre`
+ * blocks or, in newer problems, as `.example-block` elements, both of the
+ * form `Input: ... Output: ... Explanation: ...`.
+ */
+const parseExamples = (statement: Element): ProblemExample[] =>
+  Array.from(statement.querySelectorAll('pre, .example-block'))
+    .map((block) => block.textContent || '')
+    .map((text) =>
+      text.match(
+        /Input:?\s*([\s\S]*?)\s*Output:?\s*([\s\S]*?)\s*(?:Explanation:?\s*([\s\S]*?)\s*)?$/
+      )
+    )
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(([, input, output, explanation]) => ({
+      input: input.trim(),
+      output: output.trim(),
+      ...(explanation ? { explanation: explanation.trim() } : {}),
+    }))
+
+/**
+ * Reads the list that follows the `Constraints:` heading of a statement.
+ */
+const parseConstraints = (statement: Element): string[] => {
+  const heading = Array.from(statement.querySelectorAll('strong, b')).find(
+    (element) => element.textContent?.trim().startsWith('Constraints')
+  )
+  let sibling = heading?.closest('p')?.nextElementSibling
+  while (sibling && !['UL', 'OL'].includes(sibling.tagName)) {
+    sibling = sibling.nextElementSibling
+  }
+  return sibling
+    ? Array.from(sibling.querySelectorAll('li')).map((item) =>
+        htmlToMarkdown(item).replace(/`/g, '')
+      )
+    : []
+}
+
+/**
+ * Parses the LeetCode problem of the current page, from the page data when it
+ * describes the current problem and from the rendered description otherwise.
+ *
+ * @param {string} url - The page URL.
+ * @returns {LeetCodeProblem | null} The problem, or null outside of problem
+ * pages.
+ */
+export const parseLeetCodeProblem = (url: string): LeetCodeProblem | null => {
+  const slug = getProblemSlug(url)
+  if (!slug) return null
+
+  const data = getNextDataQuestion(slug)
+  const statement = data.content
+    ? new DOMParser().parseFromString(data.content, 'text/html').body
+    : document.querySelector('[data-track-load="description_content"]')
+
+  const title =
+    data.title ||
+    document
+      .querySelector(`a[href^="/problems/${slug}"]`)
+      ?.textContent?.replace(/^\d+\.\s*/, '')
+      .trim() ||
+    document.title.replace(/\s*-\s*LeetCode.*$/, '')
+
+  const difficulty = toDifficulty(
+    data.difficulty ||
+      document.querySelector('[class*="text-difficulty-"]')?.textContent
+  )
+
+  const tags = data.topicTags
+    ? data.topicTags.map((tag) => tag.name)
+    : Array.from(
+        new Set(
+          Array.from(document.querySelectorAll('a[href^="/tag/"]'))
+            .map((tag) => tag.textContent?.trim() || '')
+            .filter(Boolean)
+        )
+      )
+
+  return {
+    slug,
+    title,
+    difficulty,
+    tags,
+    statement: statement
+      ? htmlToMarkdown(statement)
+      : document
+          .querySelector('meta[name=description]')
+          ?.getAttribute('content') || '',
+    examples: statement ? parseExamples(statement) : [],
+    constraints: statement ? parseConstraints(statement) : [],
+  }
+}
+
+/**
+ * Writes a problem as the problem statement of the system prompt.
+ *
+ * @param {LeetCodeProblem} problem - The parsed problem.
+ * @returns {string}
+ */
+export const formatProblem = (problem: LeetCodeProblem): string =>
+  [
+    `# ${problem.title}`,
+    [
+      problem.difficulty && `Difficulty: ${problem.difficulty}`,
+      problem.tags.length > 0 && `Topics: ${problem.tags.join(', ')}`,
+    ]
+      .filter(Boolean)
+      .join('\n'),
+    problem.statement,
+  ]
+    .filter(Boolean)
+    .join('\n\n')
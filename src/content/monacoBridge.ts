@@ -0,0 +1,70 @@
+/**
+ * Runs in the page's main world, where the `monaco` global of the editor is
+ * visible, and answers the content script's requests for the editor content.
+ *
+ * Injected by `injectEditorBridge`. Must not use extension APIs.
+ */
+import {
+  EDITOR_BRIDGE_SOURCE,
+  EditorContentRequest,
+  EditorContentResponse,
+} from '@/interface/editorBridge'
+
+interface MonacoModel {
+  getValue(): string
+  getLanguageId(): string
+}
+
+interface MonacoEditor {
+  getModel(): MonacoModel | null
+  hasTextFocus(): boolean
+}
+
+interface Monaco {
+  editor: {
+    getEditors?(): MonacoEditor[]
+    getModels(): MonacoModel[]
+  }
+}
+
+/**
+ * Picks the model the user writes code in: the focused editor's, else the
+ * first one holding a programming language rather than test input.
+ */
+const getActiveModel = (monaco: Monaco): MonacoModel | null => {
+  const focused = monaco.editor
+    .getEditors?.()
+    .find((editor) => editor.hasTextFocus())
+    ?.getModel()
+  if (focused) return focused
+
+  const models = monaco.editor.getModels()
+  return (
+    models.find((model) => model.getLanguageId() !== 'plaintext') ||
+    models[0] ||
+    null
+  )
+}
+
+window.addEventListener('message', (event: MessageEvent) => {
+  const request = event.data as EditorContentRequest | undefined
+  if (
+    event.source !== window ||
+    request?.source !== EDITOR_BRIDGE_SOURCE ||
+    request.type !== 'getEditorContent'
+  ) {
+    return
+  }
+
+  const monaco = (window as { monaco?: Monaco }).monaco
+  const model = monaco ? getActiveModel(monaco) : null
+  const response: EditorContentResponse = {
+    source: EDITOR_BRIDGE_SOURCE,
+    type: 'editorContent',
+    requestId: request.requestId,
+    content: model
+      ? { code: model.getValue(), language: model.getLanguageId() }
+      : null,
+  }
+  window.postMessage(response, window.location.origin)
+})
@@ -1,8 +1,18 @@
 export function extractCode(htmlContent: NodeListOf<Element>) {
+  // Monaco positions the rendered lines absolutely and reuses their elements
+  // while scrolling, so the DOM order is not the line order.
+  const lines = Array.from(htmlContent).sort(
+    (a, b) => lineTop(a) - lineTop(b)
+  );
+
   // Extract the text content of each line with the 'view-line' class
-  const code = Array.from(htmlContent)
+  const code = lines
     .map((line) => line.textContent || '') // Ensure textContent is not null
     .join('\n');
 
   return code
 }
+
+function lineTop(line: Element) {
+  return parseFloat((line as HTMLElement).style?.top) || 0;
+}
@@ -0,0 +1,13 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import './index.css'
+import HistoryPage from './history/HistoryPage.tsx'
+import { ThemeProvider } from './providers/theme.tsx'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <ThemeProvider>
+      <HistoryPage />
+    </ThemeProvider>
+  </StrictMode>
+)
@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { ArrowLeft, Download, Search, Trash2, Upload } from 'lucide-react'
+
+import ChatMessage from '@/content/ChatMessage'
+import BackupManager from '@/components/BackupManager'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useModelCatalog } from '@/hooks/useModelCatalog'
+import {
+  ChatThread,
+  getMessageText,
+  MessageSearchHit,
+  StoredChatMessage,
+  ThreadOverview,
+} from '@/interface/chatHistory'
+import {
+  downloadConversations,
+  EXPORT_FORMATS,
+  ExportFormat,
+  parseConversationImport,
+} from '@/lib/conversationExport'
+import { createMessageBus } from '@/lib/messageBus'
+import { findModel } from '@/services/ModelCatalog'
+
+/**
+ * Number of characters shown around a search match.
+ */
+const SNIPPET_LENGTH = 160
+
+/**
+ * Conversation key of the threads imported from a bare list of messages,
+ * which belong to no page.
+ */
+const IMPORTED_PROBLEM_NAME = 'imported'
+
+/**
+ * Returns the site a conversation key belongs to.
+ */
+const siteOf = (problemName: string) => {
+  try {
+    return new URL(problemName).hostname
+  } catch {
+    return problemName
+  }
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString()
+
+/**
+ * Cuts the text of a message around the first word of a query.
+ */
+const snippetOf = (message: StoredChatMessage, query: string) => {
+  const text = getMessageText(message).replace(/\s+/g, ' ')
+  const word = query.trim().split(/\s+/)[0]?.toLowerCase() || ''
+  const start = Math.max(
+    0,
+    text.toLowerCase().indexOf(word) - SNIPPET_LENGTH / 2
+  )
+  return (
+    (start > 0 ? '…' : '') +
+    text.slice(start, start + SNIPPET_LENGTH) +
+    (start + SNIPPET_LENGTH < text.length ? '…' : '')
+  )
+}
+
+/**
+ * Lists every conversation of every site, searches their messages and shows
+ * a thread read-only. Opened as the extension's options page.
+ *
+ * @returns {React.ReactElement} - The history page.
+ */
+const HistoryPage: React.FC = () => {
+  const bus = useMemo(() => createMessageBus(), [])
+  const { models: catalog } = useModelCatalog()
+  const [threads, setThreads] = useState<ThreadOverview[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [query, setQuery] = useState<string>('')
+  const [hits, setHits] = useState<MessageSearchHit[] | null>(null)
+  const [openThread, setOpenThread] = useState<ChatThread | null>(null)
+  const [messages, setMessages] = useState<StoredChatMessage[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const importFileRef = useRef<HTMLInputElement>(null)
+
+  const loadThreads = async () => {
+    try {
+      setThreads(await bus.request('getAllThreads', {}))
+      setError(null)
+    } catch (error) {
+      setError((error as Error).message)
+    }
+  }
+
+  useEffect(() => {
+    loadThreads()
+  }, [])
+
+  useEffect(() => {
+    if (!openThread) return
+    let isCurrent = true
+    bus
+      .request('getAllMessages', { threadId: openThread.id })
+      .then((list) => isCurrent && setMessages(list))
+    return () => {
+      isCurrent = false
+    }
+  }, [openThread])
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!query.trim()) {
+      setHits(null)
+      return
+    }
+    try {
+      setHits(await bus.request('searchMessages', { query }))
+      setError(null)
+    } catch (error) {
+      setError((error as Error).message)
+    }
+  }
+
+  const toggle = (threadId: string) =>
+    setSelected((current) => {
+      const next = new Set(current)
+      if (!next.delete(threadId)) next.add(threadId)
+      return next
+    })
+
+  const deleteSelected = async () => {
+    if (
+      !confirm(
+        `Delete ${selected.size} conversation${selected.size === 1 ? '' : 's'}? This cannot be undone.`
+      )
+    ) {
+      return
+    }
+    await bus.request('deleteThreads', { threadIds: Array.from(selected) })
+    setSelected(new Set())
+    setHits(null)
+    await loadThreads()
+  }
+
+  const exportThread = async (format: ExportFormat) => {
+    if (!openThread) return
+    downloadConversations(
+      await bus.request('exportConversations', { threadIds: [openThread.id] }),
+      format
+    )
+  }
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const { error, success } = parseConversationImport(
+      await file.text(),
+      IMPORTED_PROBLEM_NAME
+    )
+    if (!success) {
+      setError(`Could not import ${file.name}. ${error}`)
+      return
+    }
+    await bus.request('importConversations', success)
+    await loadThreads()
+  }
+
+  if (openThread) {
+    return (
+      <div className="mx-auto max-w-3xl p-6">
+        <Button variant="tertiary" onClick={() => setOpenThread(null)}>
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+        <h2 className="mt-4 text-xl font-bold">{openThread.title}</h2>
+        <p className="text-sm text-muted-foreground">
+          {openThread.pageTitle || openThread.problemName} ·{' '}
+          {siteOf(openThread.problemName)}
+        </p>
+        <div className="mt-2 flex gap-2">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="small"
+              onClick={() => exportThread(format)}
+            >
+              <Download className="mr-2 h-4 w-4" />{' '}
+              {EXPORT_FORMATS[format].label}
+            </Button>
+          ))}
+        </div>
+        <ScrollArea className="mt-4">
+          {messages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No messages.</p>
+          ) : (
+            messages.map((message) => (
+              <ChatMessage
+                key={message.id}
+                role={message.role}
+                content={message.content}
+                status={message.status}
+                usage={message.usage}
+                modelLabel={
+                  message.model &&
+                  (findModel(catalog, message.model)?.display || message.model)
+                }
+              />
+            ))
+          )}
+        </ScrollArea>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl p-6">
+      <h1 className="text-2xl font-bold">
+        Conversation <span className="text-whisperOrange">History</span>
+      </h1>
+      <form className="mt-4 flex gap-2" onSubmit={search}>
+        <Input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search all messages"
+        />
+        <Button type="submit" variant="outline">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+
+      {hits ? (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {hits.length} matching message{hits.length === 1 ? '' : 's'}
+            </p>
+            <Button
+              variant="tertiary"
+              size="small"
+              onClick={() => setHits(null)}
+            >
+              Clear search
+            </Button>
+          </div>
+          {hits.map(({ thread, message }) => (
+            <button
+              key={message.id}
+              className="block w-full rounded-md border p-3 text-left hover:bg-muted"
+              onClick={() => setOpenThread(thread)}
+            >
+              <p className="text-sm font-medium">
+                {thread.title}{' '}
+                <span className="text-xs text-muted-foreground">
+                  {siteOf(thread.problemName)} · {formatDate(message.createdAt)}
+                </span>
+              </p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {message.role === 'user' ? 'You: ' : ''}
+                {snippetOf(message, query)}
+              </p>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {threads.length} conversation{threads.length === 1 ? '' : 's'}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="small"
+                onClick={() => importFileRef.current?.click()}
+              >
+                <Upload className="mr-2 h-4 w-4" /> Import JSON
+              </Button>
+              <Button
+                variant="error"
+                size="small"
+                disabled={selected.size === 0}
+                onClick={deleteSelected}
+              >
+                <Trash2 className="mr-2 h-4 w-4" /> Delete selected
+              </Button>
+            </div>
+            <input
+              ref={importFileRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={importFile}
+            />
+          </div>
+          {threads.map((thread) => (
+            <div
+              key={thread.id}
+              className="flex items-center gap-3 rounded-md border p-3"
+            >
+              <input
+                type="checkbox"
+                aria-label={`Select ${thread.title}`}
+                checked={selected.has(thread.id)}
+                onChange={() => toggle(thread.id)}
+              />
+              <button
+                className="flex-1 text-left"
+                onClick={() => setOpenThread(thread)}
+              >
+                <p className="text-sm font-medium">
+                  {thread.title}{' '}
+                  <span className="text-xs text-muted-foreground">
+                    {thread.pageTitle}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {siteOf(thread.problemName)} · last active{' '}
+                  {formatDate(thread.updatedAt)} · {thread.messageCount} message
+                  {thread.messageCount === 1 ? '' : 's'}
+                </p>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <BackupManager onRestore={loadThreads} />
+    </div>
+  )
+}
+
+export default HistoryPage
@@ -1,23 +1,121 @@
-import { ValidModel } from '@/constants/valid_modals'
+import { getModelProvider, SelectableModel } from '@/constants/valid_modals'
+import { ProviderId } from '@/interface/catalog'
+import {
+  CustomEndpoint,
+  isCustomModel,
+  toCustomModel,
+} from '@/interface/customEndpoint'
+import {
+  getVaultKey,
+  getVaultState,
+  hasVaultKey,
+  removeVaultKeys,
+  setVaultKey,
+} from '@/lib/keyVault'
+
+/**
+ * Returns the key stored in the vault for a provider.
+ */
+const getProviderKey = async (provider: ProviderId) =>
+  provider === 'custom' ? undefined : getVaultKey(provider)
+
+const getStoredEndpoints = async () => {
+  const result = await chrome.storage.local.get('customEndpoints')
+  return (result['customEndpoints'] as CustomEndpoint[]) || []
+}
 
 export const useChromeStorage = () => {
   return {
-    setKeyModel: async (apiKey: string, model: ValidModel) => {
-      chrome.storage.local.set({ [model]: apiKey })
+    setProviderKey: async (
+      provider: Exclude<ProviderId, 'custom'>,
+      apiKey: string
+    ) => {
+      await setVaultKey(provider, apiKey)
     },
 
-    getKeyModel: async (model: ValidModel) => {
-      const result = await chrome.storage.local.get(model)
-      return { model: model, apiKey: result[model] }
+    getKeyModel: async (model: SelectableModel) => {
+      if (isCustomModel(model)) {
+        // Most endpoints have no key, so only a stored one can be locked.
+        return {
+          model: model,
+          apiKey: await getVaultKey(model),
+          locked:
+            (await getVaultState()) === 'locked' && (await hasVaultKey(model)),
+        }
+      }
+
+      // Every model of a provider shares the provider's key.
+      const provider = getModelProvider(model)
+      return {
+        model: model,
+        apiKey: provider ? await getProviderKey(provider) : undefined,
+        locked: (await getVaultState()) === 'locked',
+      }
     },
 
-    setSelectModel: async (model: ValidModel) => {
+    getProviderKey,
+
+    setSelectModel: async (model: SelectableModel) => {
       await chrome.storage.local.set({ ['selectedModel']: model })
     },
 
     selectModel: async () => {
       const result = await chrome.storage.local.get('selectedModel')
-      return result['selectedModel'] as ValidModel
+      return result['selectedModel'] as SelectableModel
+    },
+
+    getFallbackModels: async () => {
+      const result = await chrome.storage.local.get('fallbackModels')
+      return (result['fallbackModels'] as SelectableModel[]) || []
+    },
+
+    setFallbackModels: async (models: SelectableModel[]) => {
+      await chrome.storage.local.set({ ['fallbackModels']: models })
+    },
+
+    /**
+     * Returns the endpoints without their keys, which the vault keeps.
+     */
+    getCustomEndpoints: async () =>
+      (await getStoredEndpoints()).map(
+        ({ apiKey: _apiKey, ...endpoint }) => endpoint
+      ),
+
+    /**
+     * Stores the endpoints and moves the keys given with them into the vault.
+     * Endpoints given without a key keep theirs; the keys of removed
+     * endpoints are deleted.
+     *
+     * @throws When a key is given while the vault is not set up or locked.
+     */
+    setCustomEndpoints: async (endpoints: CustomEndpoint[]) => {
+      const stored = await getStoredEndpoints()
+      await removeVaultKeys(
+        stored
+          .filter((current) => !endpoints.some((e) => e.id === current.id))
+          .map(toCustomModel)
+      )
+
+      const next: CustomEndpoint[] = []
+      for (const { apiKey, ...endpoint } of endpoints) {
+        if (apiKey) await setVaultKey(toCustomModel(endpoint), apiKey)
+        // A key stored in plain text by an earlier version stays until the
+        // vault is unlocked and takes it over.
+        const legacyKey = apiKey
+          ? undefined
+          : stored.find((current) => current.id === endpoint.id)?.apiKey
+        next.push(legacyKey ? { ...endpoint, apiKey: legacyKey } : endpoint)
+      }
+      await chrome.storage.local.set({ ['customEndpoints']: next })
+    },
+
+    getUsageBudget: async () => {
+      const result = await chrome.storage.local.get('usageBudget')
+      return (result['usageBudget'] as number | undefined) || null
+    },
+
+    setUsageBudget: async (budget: number | null) => {
+      await chrome.storage.local.set({ ['usageBudget']: budget })
     },
   }
 }
@@ -1,26 +1,102 @@
-import { ChatHistory } from '@/interface/chatHistory'
 import {
-  clearChatHistory,
-  getChatHistory,
-  saveChatHistory,
-} from '@/lib/indexedDB'
+  ChatHistory,
+  ConversationDump,
+  ConversationSummary,
+} from '@/interface/chatHistory'
+import { deleteLocalDatabase, readLocalConversations } from '@/lib/indexedDB'
+import { createMessageBus } from '@/lib/messageBus'
+
+let localImport: Promise<void> | null = null
+
+/**
+ * Moves the conversations an earlier version stored in the origin of the
+ * current page to the background's database, once per page load. The local
+ * database is only deleted after the background stored its content.
+ */
+const importLocalConversations = () => {
+  if (!localImport) {
+    localImport = (async () => {
+      const dump = await readLocalConversations()
+      if (!dump) return
+      await createMessageBus().request('importPageConversations', dump)
+      await deleteLocalDatabase()
+    })().catch((error) => {
+      console.warn('Could not import the local chat history', error)
+    })
+  }
+  return localImport
+}
 
 export const useIndexDB = () => {
+  const bus = createMessageBus()
+
   return {
-    saveChatHistory: async (problemName: string, history: ChatHistory[]) => {
-      await saveChatHistory(problemName, history)
+    fetchThreads: async (problemName: string) => {
+      await importLocalConversations()
+      return await bus.request('getThreads', { problemName })
     },
 
-    fetchChatHistory: async (
+    createThread: async (
       problemName: string,
+      title?: string,
+      pageTitle?: string
+    ) => {
+      return await bus.request('createThread', {
+        problemName,
+        title,
+        pageTitle,
+      })
+    },
+
+    renameThread: async (threadId: string, title: string) => {
+      await bus.request('renameThread', { threadId, title })
+    },
+
+    deleteThread: async (threadId: string) => {
+      await bus.request('deleteThread', { threadId })
+    },
+
+    appendMessages: async (threadId: string, messages: ChatHistory[]) => {
+      return await bus.request('appendMessages', { threadId, messages })
+    },
+
+    fetchMessagePage: async (
+      threadId: string,
       limit: number,
-      offset: number
+      before?: number
+    ) => {
+      return await bus.request('getMessagePage', { threadId, limit, before })
+    },
+
+    fetchAllMessages: async (threadId: string) => {
+      return await bus.request('getAllMessages', { threadId })
+    },
+
+    clearChatHistory: async (threadId: string) => {
+      await bus.request('clearChatHistory', { threadId })
+    },
+
+    fetchConversationSummary: async (threadId: string) => {
+      return await bus.request('getConversationSummary', { threadId })
+    },
+
+    saveConversationSummary: async (
+      threadId: string,
+      summary: ConversationSummary
     ) => {
-      return await getChatHistory(problemName, limit, offset)
+      await bus.request('saveConversationSummary', { threadId, summary })
+    },
+
+    exportConversations: async (threadIds: string[]) => {
+      return await bus.request('exportConversations', { threadIds })
     },
 
-    clearChatHistory: async (problemName: string) => {
-      await clearChatHistory(problemName)
+    /**
+     * Imports the conversations of the current site; the others, and threads
+     * already stored, are skipped.
+     */
+    importConversations: async (dump: ConversationDump) => {
+      await bus.request('importPageConversations', dump)
     },
   }
 }
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react'
+import { CatalogModel, ProviderId } from '@/interface/catalog'
+import {
+  getBundledModels,
+  getCatalog,
+  PROVIDER_CATALOGS,
+  refreshCatalog,
+} from '@/services/ModelCatalog'
+import { useChromeStorage } from './useChromeStorage'
+
+/**
+ * Loads the model catalog that drives the model pickers.
+ *
+ * Starts with the bundled manifest and swaps in the stored catalog
+ * (discovered and custom models) once it has been read.
+ */
+export const useModelCatalog = () => {
+  const [models, setModels] = useState<CatalogModel[]>(getBundledModels)
+
+  const reload = useCallback(async () => {
+    setModels(await getCatalog())
+  }, [])
+
+  /**
+   * Queries every provider that has a key and reloads the catalog.
+   *
+   * @returns Error messages by provider.
+   */
+  const refresh = useCallback(async () => {
+    const { getProviderKey } = useChromeStorage()
+    const keys: Partial<Record<ProviderId, string>> = {}
+    for (const provider of PROVIDER_CATALOGS) {
+      keys[provider.id] = await getProviderKey(provider.id)
+    }
+
+    const errors = await refreshCatalog(keys)
+    await reload()
+    return errors
+  }, [reload])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { models, reload, refresh }
+}
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { SelectableModel } from '@/constants/valid_modals'
+import { ModelStatus } from '@/interface/messages'
+import { VAULT_SESSION_KEY } from '@/lib/keyVault'
+import { createMessageBus } from '@/lib/messageBus'
+import { useChromeStorage } from './useChromeStorage'
+
+/**
+ * Local storage keys that change which model answers or whether it has a key.
+ */
+const MODEL_SETTINGS_KEYS = [
+  'selectedModel',
+  'keyVault',
+  'customEndpoints',
+  'modelCatalog',
+]
+
+/**
+ * Keeps the selected model, and whether it can answer, in sync with the
+ * storage. A model picked in the popup or in any tab is used right away by
+ * every open chat, with the key of its provider.
+ *
+ * The status comes from the background, so keys never reach the page.
+ */
+export const useModelSettings = () => {
+  const [status, setStatus] = useState<ModelStatus>()
+  const latestReload = useRef(0)
+
+  const reload = useCallback(async () => {
+    const reloadId = ++latestReload.current
+    const next = await createMessageBus().request('getModelStatus', {})
+    // A newer reload started meanwhile and has the fresher answer.
+    if (reloadId === latestReload.current) setStatus(next)
+  }, [])
+
+  useEffect(() => {
+    reload()
+
+    const onStorageChanged = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (
+        areaName === 'local' &&
+        Object.keys(changes).some((key) => MODEL_SETTINGS_KEYS.includes(key))
+      ) {
+        reload()
+      }
+    }
+    chrome.storage.onChanged.addListener(onStorageChanged)
+
+    // Locking the vault only touches session storage, which content scripts
+    // can't observe, so the background relays it.
+    const removeBusListener = createMessageBus().on(
+      'settingsChanged',
+      ({ keys }) => {
+        if (keys.includes(VAULT_SESSION_KEY)) reload()
+      }
+    )
+
+    return () => {
+      chrome.storage.onChanged.removeListener(onStorageChanged)
+      removeBusListener()
+    }
+  }, [reload])
+
+  /**
+   * Selects a model for every tab. The status follows through the storage
+   * change.
+   */
+  const selectModel = useCallback(async (model: SelectableModel) => {
+    const { setSelectModel } = useChromeStorage()
+    await setSelectModel(model)
+  }, [])
+
+  return {
+    model: status?.model,
+    hasKey: status?.hasKey || false,
+    locked: status?.locked || false,
+    isLoaded: !!status,
+    selectModel,
+    reload,
+  }
+}
@@ -1,4 +1,5 @@
-import { outputSchema } from '@/schema/modeOutput'
+import { OutputSchema, outputSchema } from '@/schema/modeOutput'
+import { DeepPartial, LanguageModelUsage } from 'ai'
 import { z } from 'zod'
 import { ChatHistoryParsed } from './chatHistory'
 
@@ -28,14 +29,49 @@ export abstract class ModalInterface {
    * @param systemPrompt - A system-level instruction to guide the AI.
    * @param messages - A parsed history of the chat for context.
    * @param extractedCode - (Optional) A code snippet to assist the AI in its response.
+   * @param abortSignal - (Optional) A signal that cancels the request.
+   * @param schema - (Optional) The output schema of the tutoring mode.
    *
    * @returns A promise resolving to an object containing either:
    *  - `error`: Any error encountered during the API call.
    *  - `success`: The successful response data adhering to `outputSchema`.
+   *  - `usage`: The tokens spent, when the provider reports them.
    */
   abstract generateResponse(props: GenerateResponseParamsType): Promise<{
     error: Error | null
     success: z.infer<typeof outputSchema> | null
+    usage?: LanguageModelUsage
+  }>
+
+  /**
+   * Streams a response using the AI model.
+   *
+   * Yields partial objects while the model is still generating and returns
+   * the same `{ error, success, usage }` result as `generateResponse` once the final
+   * object has been validated against `outputSchema`.
+   *
+   * @param props - The same parameters accepted by `generateResponse`.
+   */
+  abstract streamResponse(
+    props: GenerateResponseParamsType
+  ): GenerateResponseStreamType
+
+  /**
+   * Folds older turns of the conversation into a plain-text summary.
+   *
+   * @param props - The turns to summarize and the summary they continue.
+   */
+  abstract summarize(props: SummarizeParamsType): SummarizeReturnType
+
+  /**
+   * Sends a minimal request to check the API key and the access to the model.
+   *
+   * @param abortSignal - (Optional) A signal that cancels the request.
+   * @returns `success` is `true` when the model answered, otherwise `error` holds the provider's error.
+   */
+  abstract testConnection(abortSignal?: AbortSignal): Promise<{
+    error: Error | null
+    success: boolean
   }>
 }
 
@@ -45,8 +81,28 @@ export abstract class ModalInterface {
 export type GenerateResponseReturnType = Promise<{
   error: Error | null
   success: z.infer<typeof outputSchema> | null | any
+  usage?: LanguageModelUsage
 }>
 
+/**
+ * Defines a partial response streamed while the model is still generating.
+ * Its values may be unfinished, e.g. half the name of a language.
+ */
+export type GenerateResponsePartialType = DeepPartial<
+  Omit<z.infer<typeof outputSchema>, 'programmingLanguage'> & {
+    programmingLanguage: string
+  }
+>
+
+/**
+ * Defines the stream returned by `streamResponse`.
+ */
+export type GenerateResponseStreamType = AsyncGenerator<
+  GenerateResponsePartialType,
+  Awaited<GenerateResponseReturnType>,
+  void
+>
+
 /**
  * Defines the parameters for generating a response.
  */
@@ -55,4 +111,31 @@ export type GenerateResponseParamsType = {
   systemPrompt: string
   messages: ChatHistoryParsed[] | []
   extractedCode?: string
+  /**
+   * Aborts the in-flight request when the user stops the generation.
+   */
+  abortSignal?: AbortSignal
+  /**
+   * The variant of `outputSchema` of the tutoring mode, `outputSchema` itself
+   * when not set.
+   */
+  schema?: OutputSchema
 }
+
+/**
+ * Defines the parameters for summarizing older turns of a conversation.
+ */
+export type SummarizeParamsType = {
+  messages: ChatHistoryParsed[]
+  previousSummary?: string
+  abortSignal?: AbortSignal
+}
+
+/**
+ * Defines the result of `summarize`.
+ */
+export type SummarizeReturnType = Promise<{
+  error: Error | null
+  success: string | null
+  usage?: LanguageModelUsage
+}>
@@ -0,0 +1,85 @@
+import { SelectableModel } from '@/constants/valid_modals'
+import { ConversationDump } from '@/interface/chatHistory'
+import { CustomEndpoint } from '@/interface/customEndpoint'
+import { PromptTemplate } from '@/interface/promptTemplate'
+import { UsageRecord } from '@/interface/usage'
+import { StoredVault } from '@/lib/keyVault'
+import { TutoringMode } from '@/schema/modeOutput'
+
+/**
+ * Marks the backup archives of this extension.
+ */
+export const BACKUP_FORMAT = 'leetcode-whisper-backup'
+
+/**
+ * The settings kept in `chrome.storage.local`. Caches, health checks and
+ * logs are left out; they are rebuilt on the new machine.
+ */
+export interface BackupSettings {
+  selectedModel?: SelectableModel
+  fallbackModels: SelectableModel[]
+  /**
+   * Without their API keys, which the vault of the secrets keeps. Archives
+   * of earlier versions may include them.
+   */
+  customEndpoints: CustomEndpoint[]
+  usageBudget: number | null
+  /**
+   * Missing in backups of versions without prompt templates.
+   */
+  promptTemplates?: PromptTemplate[]
+  /**
+   * The template picked per thread id.
+   */
+  threadPromptTemplates?: Record<string, string>
+  /**
+   * The tutoring mode picked per thread id, when not the default one.
+   */
+  threadTutoringModes?: Record<string, TutoringMode>
+}
+
+/**
+ * The API keys, only included when the user opts in.
+ */
+export interface BackupSecrets {
+  /**
+   * The encrypted key vault. It opens with the passphrase it had when the
+   * backup was made.
+   */
+  vault?: StoredVault
+  /**
+   * Keys stored in plain text per model by versions before the vault.
+   */
+  legacyKeys: Record<string, string>
+}
+
+/**
+ * Everything the extension stores, in one versioned file.
+ */
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT
+  version: 1
+  /**
+   * ISO 8601 date of the backup.
+   */
+  createdAt: string
+  settings: BackupSettings
+  secrets?: BackupSecrets
+  conversations: ConversationDump
+  usage: UsageRecord[]
+}
+
+/**
+ * How a restore treats the current state:
+ * - `merge`: keeps what is set and adds what is missing.
+ * - `replace`: makes the state equal to the archive. Secrets are only
+ *   replaced when the archive includes them.
+ */
+export type RestoreMode = 'merge' | 'replace'
+
+/**
+ * What a restore could not do, to show to the user.
+ */
+export interface RestoreResult {
+  warnings: string[]
+}
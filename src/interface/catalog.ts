@@ -0,0 +1,69 @@
+import { SelectableModel } from '@/constants/valid_modals'
+import { CustomEndpoint } from './customEndpoint'
+
+/**
+ * Providers the extension knows how to talk to.
+ */
+export type ProviderId = 'openai' | 'google' | 'anthropic' | 'custom'
+
+/**
+ * What a model can do. Used to pick the object generation mode, to budget the
+ * prompt and to label models in the pickers.
+ */
+export interface ModelCapabilities {
+  /**
+   * Maximum number of input tokens.
+   */
+  contextWindow: number
+  /**
+   * Whether the model can be forced to follow a JSON schema (tool calls or
+   * structured outputs). Models without it are asked for plain JSON instead.
+   */
+  structuredOutput: boolean
+  /**
+   * Whether the model accepts images.
+   */
+  vision: boolean
+}
+
+/**
+ * A model entry of the catalog.
+ */
+export interface CatalogModel {
+  /**
+   * Id used for selection and storage, e.g. `openai_4o` or `openai:gpt-4.1`.
+   */
+  name: SelectableModel
+  /**
+   * Id sent to the provider's API, e.g. `gpt-4o`.
+   */
+  model: string
+  provider: ProviderId
+  display: string
+  capabilities: ModelCapabilities
+  /**
+   * `manifest` for models bundled with the extension, `remote` for models
+   * discovered through the provider's models endpoint and `custom` for user
+   * endpoints.
+   */
+  source: 'manifest' | 'remote' | 'custom'
+  /**
+   * Connection details, only set for custom endpoints.
+   */
+  endpoint?: CustomEndpoint
+}
+
+/**
+ * Lists the models a provider offers.
+ */
+export interface ProviderCatalog {
+  id: Exclude<ProviderId, 'custom'>
+  display: string
+  /**
+   * Queries the provider's models endpoint.
+   *
+   * @param apiKey - The API key used to authenticate with the provider.
+   * @throws When the provider cannot be reached or rejects the key.
+   */
+  listModels(apiKey: string): Promise<CatalogModel[]>
+}
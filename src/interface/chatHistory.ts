@@ -1,5 +1,7 @@
-import { outputSchema } from '@/schema/modeOutput'
+import { outputSchema, TutoringMode } from '@/schema/modeOutput'
+import { SelectableModel } from '@/constants/valid_modals'
 import { z } from 'zod'
+import { TokenUsage } from './usage'
 
 export type Roles =
   | 'function'
@@ -9,9 +11,32 @@ export type Roles =
   | 'data'
   | 'tool'
 
+/**
+ * Marks an assistant turn that did not finish normally.
+ * - `cancelled`: the user stopped the generation.
+ * - `error`: the provider failed and `content` holds the error message.
+ */
+export type MessageStatus = 'cancelled' | 'error'
+
 export interface ChatHistory {
   role: Roles
   content: string | z.infer<typeof outputSchema>
+  status?: MessageStatus
+  /**
+   * The model that answered, set on assistant messages. It differs from the
+   * selected model when the request fell back to another provider.
+   */
+  model?: SelectableModel
+  /**
+   * The tutoring mode the answer was given in, set on assistant messages.
+   * Messages without it were answered in `guided` mode.
+   */
+  mode?: TutoringMode
+  /**
+   * Tokens spent on the answer, set on assistant messages when the provider
+   * reports them.
+   */
+  usage?: TokenUsage
 }
 
 // parse ChatHistory to new interface where content if z.infer<typeof outputSchema> than make it string
@@ -24,13 +49,132 @@ export interface ChatHistoryParsed {
 export const parseChatHistory = (
   chatHistory: ChatHistory[]
 ): ChatHistoryParsed[] => {
-  return chatHistory.map((history) => {
-    return {
-      role: history.role,
-      content:
-        typeof history.content === 'string'
-          ? history.content
-          : JSON.stringify(history.content),
-    }
-  })
+  // Stopped answers and error bubbles are not turns the model gave
+  return chatHistory
+    .filter(
+      (history) => history.status !== 'cancelled' && history.status !== 'error'
+    )
+    .map((history) => {
+      return {
+        role: history.role,
+        content:
+          typeof history.content === 'string'
+            ? history.content
+            : JSON.stringify(history.content),
+      }
+    })
+}
+
+/**
+ * Rolling summary of the older turns of a conversation, stored with it so
+ * long sessions fit into the model's context window.
+ */
+export interface ConversationSummary {
+  content: string
+  /**
+   * Number of leading messages of the chat history the summary replaces.
+   */
+  coveredCount: number
+}
+
+/**
+ * A named conversation about a problem, e.g. "approach 1: DP" or
+ * "debug TLE". A problem can have several threads.
+ */
+export interface ChatThread {
+  id: string
+  /**
+   * The conversation key of the problem the thread belongs to.
+   */
+  problemName: string
+  title: string
+  /**
+   * Title of the page the thread was started on.
+   */
+  pageTitle?: string
+  /**
+   * Milliseconds since the epoch.
+   */
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * A message as stored: one record per message of a thread.
+ */
+export interface StoredChatMessage extends ChatHistory {
+  id: string
+  threadId: string
+  /**
+   * Milliseconds since the epoch. Unique within a thread, so it orders the
+   * messages.
+   */
+  createdAt: number
+}
+
+/**
+ * A page of messages, oldest first.
+ */
+export interface MessagePage {
+  messages: StoredChatMessage[]
+  /**
+   * Pass as `before` to load the previous page; null on the first page of the
+   * thread.
+   */
+  nextCursor: number | null
 }
+
+/**
+ * A thread as listed by the history page.
+ */
+export interface ThreadOverview extends ChatThread {
+  messageCount: number
+}
+
+/**
+ * A message that matched a history search.
+ */
+export interface MessageSearchHit {
+  thread: ChatThread
+  message: StoredChatMessage
+}
+
+/**
+ * Every thread and message of a database, e.g. to move them to another one.
+ */
+export interface ConversationDump {
+  threads: (ChatThread & { summary?: ConversationSummary })[]
+  messages: StoredChatMessage[]
+}
+
+/**
+ * Marks the JSON files written by the conversation export.
+ */
+export const CONVERSATION_EXPORT_FORMAT = 'leetcode-whisper-conversations'
+
+/**
+ * A JSON export: the threads with everything stored about them, so importing
+ * it loses nothing.
+ */
+export interface ConversationExport extends ConversationDump {
+  format: typeof CONVERSATION_EXPORT_FORMAT
+  version: 1
+  /**
+   * ISO 8601 date of the export.
+   */
+  exportedAt: string
+}
+
+/**
+ * Returns the text of a message that searches look at: the plain text, or
+ * the feedback, hints and snippet of an answer.
+ *
+ * @param {ChatHistory} message - The message.
+ * @returns {string}
+ */
+export const getMessageText = ({ content }: ChatHistory): string =>
+  typeof content === 'string'
+    ? content
+    : [content.feedback, ...(content.hints || []), content.snippet || '']
+        .filter(Boolean)
+        .join('\n')
@@ -0,0 +1,39 @@
+import { CustomModel, SelectableModel } from '@/constants/valid_modals'
+
+/**
+ * A user-configured OpenAI-compatible endpoint such as Ollama, LM Studio or vLLM.
+ */
+export interface CustomEndpoint {
+  id: string
+  /**
+   * Name shown in the model pickers.
+   */
+  name: string
+  /**
+   * Base URL of the OpenAI-compatible API, e.g. `http://localhost:11434/v1`.
+   */
+  baseURL: string
+  /**
+   * Model id sent with every request, e.g. `llama3.1`.
+   */
+  model: string
+  /**
+   * Optional API key. Most local servers do not need one.
+   */
+  apiKey?: string
+}
+
+export const CUSTOM_MODEL_PREFIX = 'custom:'
+
+/**
+ * Returns the selectable model id of a custom endpoint.
+ */
+export const toCustomModel = (endpoint: CustomEndpoint): CustomModel =>
+  `${CUSTOM_MODEL_PREFIX}${endpoint.id}`
+
+/**
+ * Checks whether the given model id points to a custom endpoint.
+ */
+export const isCustomModel = (
+  model: SelectableModel | null | undefined
+): model is CustomModel => !!model && model.startsWith(CUSTOM_MODEL_PREFIX)
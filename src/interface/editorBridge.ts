@@ -0,0 +1,42 @@
+/**
+ * Marks the `window.postMessage` messages exchanged between the content script
+ * and the editor bridge injected into the page.
+ */
+export const EDITOR_BRIDGE_SOURCE = 'leetcode-whisper-editor-bridge'
+
+/**
+ * The code of the editor and its language mode.
+ */
+export interface EditorContent {
+  code: string
+  /**
+   * Monaco's language id, e.g. `python` or `cpp`, or the label shown by the
+   * page when it could only be read from the DOM.
+   */
+  language: string | null
+  /**
+   * Where the content was read from. The DOM only holds the lines Monaco
+   * renders, so code read from it may be incomplete.
+   */
+  origin: 'monaco' | 'dom'
+}
+
+/**
+ * Asks the bridge for the content of the editor.
+ */
+export interface EditorContentRequest {
+  source: typeof EDITOR_BRIDGE_SOURCE
+  type: 'getEditorContent'
+  requestId: string
+}
+
+/**
+ * Answers an `EditorContentRequest`; `content` is null when the page has no
+ * Monaco editor.
+ */
+export interface EditorContentResponse {
+  source: typeof EDITOR_BRIDGE_SOURCE
+  type: 'editorContent'
+  requestId: string
+  content: Omit<EditorContent, 'origin'> | null
+}
@@ -0,0 +1,33 @@
+export type ProblemDifficulty = 'Easy' | 'Medium' | 'Hard'
+
+/**
+ * One example of a problem statement.
+ */
+export interface ProblemExample {
+  input: string
+  output: string
+  explanation?: string
+}
+
+/**
+ * A LeetCode problem, parsed from its page.
+ */
+export interface LeetCodeProblem {
+  /**
+   * The last path segment of the problem URL, e.g. `two-sum`. Stays the same
+   * across the description, editorial and submissions tabs.
+   */
+  slug: string
+  title: string
+  difficulty: ProblemDifficulty | null
+  /**
+   * Topic tags, e.g. `Array` or `Hash Table`.
+   */
+  tags: string[]
+  /**
+   * The whole statement, examples and constraints included, as markdown.
+   */
+  statement: string
+  examples: ProblemExample[]
+  constraints: string[]
+}
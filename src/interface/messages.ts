@@ -0,0 +1,137 @@
+import { SelectableModel } from '@/constants/valid_modals'
+import { ChatHistory, ConversationSummary } from '@/interface/chatHistory'
+import { GenerateResponsePartialType } from '@/interface/ModalInterface'
+import { LeetCodeProblem } from '@/interface/leetcodeProblem'
+import { ProviderErrorKind } from '@/lib/providerErrors'
+import { outputSchema, TutoringMode } from '@/schema/modeOutput'
+import { TokenUsage } from '@/interface/usage'
+import { z } from 'zod'
+
+/**
+ * Name of the port content scripts open to stream a generation from the
+ * background service worker.
+ */
+export const GENERATE_PORT = 'generate'
+
+/**
+ * What the page knows about the problem, read by the site adapter and filled
+ * into the system prompt by the background.
+ */
+export interface PageContext {
+  problemStatement: string
+  programmingLanguage: string
+  extractedCode: string
+  /**
+   * Further text of the page, e.g. a video transcript or an article.
+   */
+  pageContent?: string
+  /**
+   * The parsed problem, on LeetCode problem pages.
+   */
+  problem?: LeetCodeProblem
+  /**
+   * The address of the page, set by `readPageContext`.
+   */
+  pageUrl?: string
+}
+
+/**
+ * Asks the background to answer a prompt. Sent once over the generate port.
+ */
+export interface GenerateRequest {
+  type: 'generate'
+  requestId: string
+  /**
+   * The conversation the answer belongs to.
+   */
+  problemName: string
+  /**
+   * The thread of the conversation that asked.
+   */
+  threadId: string
+  /**
+   * The model selected in the chat. Fallback models are added by the
+   * background.
+   */
+  model: SelectableModel
+  prompt: string
+  /**
+   * The tutoring mode of the thread, which picks the instructions and the
+   * output schema.
+   */
+  mode: TutoringMode
+  context: PageContext
+  /**
+   * The whole stored conversation, without the new prompt.
+   */
+  history: ChatHistory[]
+  summary?: ConversationSummary
+}
+
+/**
+ * Stops the request. Closing the port does not, so answers still arrive
+ * after a navigation.
+ */
+export interface AbortRequest {
+  type: 'abort'
+  requestId: string
+}
+
+export type GeneratePortRequest = GenerateRequest | AbortRequest
+
+/**
+ * An error that crossed the message boundary.
+ */
+export interface SerializedError {
+  kind: ProviderErrorKind
+  message: string
+}
+
+/**
+ * Final outcome of a generation.
+ */
+export interface GenerateResult {
+  error: SerializedError | null
+  success: z.infer<typeof outputSchema> | null
+  /**
+   * The model that answered, which differs from the selected one after a
+   * fallback.
+   */
+  model: SelectableModel | null
+  usage?: TokenUsage
+  /**
+   * The new conversation summary, when older turns were folded into it.
+   */
+  summary?: ConversationSummary
+}
+
+export type GeneratePortEvent =
+  | { type: 'attempt'; requestId: string; model: SelectableModel }
+  | {
+      type: 'partial'
+      requestId: string
+      partial: GenerateResponsePartialType
+    }
+  | { type: 'done'; requestId: string; result: GenerateResult }
+
+/**
+ * An answer that arrived after its page was closed or navigated away, kept
+ * until the chat of that conversation is opened again.
+ */
+export interface PendingResult {
+  requestId: string
+  problemName: string
+  threadId: string
+  prompt: string
+  mode: TutoringMode
+  result: GenerateResult
+}
+
+/**
+ * Whether the selected model can be used, answered to `getModelStatus`.
+ */
+export interface ModelStatus {
+  model?: SelectableModel
+  hasKey: boolean
+  locked: boolean
+}
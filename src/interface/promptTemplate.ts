@@ -0,0 +1,43 @@
+import { PROMPT_PLACEHOLDERS } from '@/constants/prompt'
+
+export type PromptPlaceholder = keyof typeof PROMPT_PLACEHOLDERS
+
+/**
+ * The values filled into a template, one per placeholder.
+ */
+export type PromptVariables = Record<PromptPlaceholder, string>
+
+/**
+ * An earlier version of a template.
+ */
+export interface PromptRevision {
+  version: number
+  content: string
+  /**
+   * Milliseconds since the epoch.
+   */
+  updatedAt: number
+}
+
+/**
+ * A system prompt with `{{placeholder}}`s, edited in the popup.
+ */
+export interface PromptTemplate {
+  id: string
+  name: string
+  content: string
+  /**
+   * Starts at 1 and grows with every saved change of `content`.
+   */
+  version: number
+  updatedAt: number
+  /**
+   * Hostnames the template is used on, unless the conversation picked
+   * another one.
+   */
+  sites: string[]
+  /**
+   * Earlier versions, newest first.
+   */
+  revisions: PromptRevision[]
+}
@@ -0,0 +1,28 @@
+import { PageContext } from './messages'
+
+/**
+ * Reads what the assistant needs to know from the pages of one kind of site.
+ */
+export interface SiteAdapter {
+  /**
+   * Identifies the adapter, e.g. `leetcode`.
+   */
+  id: string
+  /**
+   * URLs the adapter handles. The first adapter of the registry with a
+   * matching pattern is used.
+   */
+  matches: RegExp[]
+  /**
+   * Reads the problem, the code, its language and further page context from
+   * the current page. Called before every request, so it sees the page as it
+   * is when the user asks.
+   */
+  getContext(): Promise<PageContext>
+  /**
+   * Starts watching the page, e.g. for SPA navigations.
+   *
+   * @returns A function that stops watching.
+   */
+  initialize?(): () => void
+}
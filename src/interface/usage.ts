@@ -0,0 +1,52 @@
+import { SelectableModel } from '@/constants/valid_modals'
+import { ProviderId } from './catalog'
+
+/**
+ * Tokens spent on a single answer.
+ */
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+/**
+ * Entry of the usage log kept in `chrome.storage.local`. The log is shared by
+ * every page the chat runs on, so the popup can total it.
+ */
+export interface UsageRecord extends TokenUsage {
+  /**
+   * When the answer was received, in milliseconds since the epoch.
+   */
+  createdAt: number
+  /**
+   * The conversation the answer belongs to (currently the page URL).
+   */
+  problemName: string
+  model: SelectableModel
+  provider: ProviderId
+  /**
+   * Estimated cost in USD, `null` when the model's price is unknown.
+   */
+  cost: number | null
+}
+
+/**
+ * How the usage view groups the log.
+ */
+export type UsageGrouping = 'day' | 'problem' | 'provider'
+
+/**
+ * One row of the usage view.
+ */
+export interface UsageSummary extends TokenUsage {
+  key: string
+  requests: number
+  /**
+   * Sum of the known costs in USD.
+   */
+  cost: number
+  /**
+   * Whether some answers of the row have no known price.
+   */
+  hasUnpricedUsage: boolean
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import { ConversationDump } from '@/interface/chatHistory'
+import {
+  IMPORTED_THREAD_TITLE,
+  parseConversationImport,
+  toHtml,
+  toJson,
+  toMarkdown,
+} from '@/lib/conversationExport'
+
+const PROBLEM = 'https://leetcode.com/problems/two-sum/'
+
+const DUMP: ConversationDump = {
+  threads: [
+    {
+      id: 't1',
+      problemName: PROBLEM,
+      title: 'Hash map',
+      pageTitle: 'Two Sum',
+      createdAt: 1,
+      updatedAt: 4,
+      summary: { content: 'Asked for a start.', coveredCount: 1 },
+    },
+  ],
+  messages: [
+    { id: 'm1', threadId: 't1', createdAt: 2, role: 'user', content: 'Help?' },
+    {
+      id: 'm2',
+      threadId: 't1',
+      createdAt: 3,
+      role: 'assistant',
+      model: 'openai_4o',
+      mode: 'guided',
+      usage: { promptTokens: 10, completionTokens: 5 },
+      content: {
+        feedback: 'Store what you have seen.',
+        hints: ['Use a map', 'Look up the complement'],
+        snippet: 'const seen = new Map() // ```',
+        programmingLanguage: 'javascript',
+      },
+    },
+    {
+      id: 'm3',
+      threadId: 't1',
+      createdAt: 4,
+      role: 'assistant',
+      status: 'cancelled',
+      content: '<b>Stopped</b>',
+    },
+  ],
+}
+
+describe('toMarkdown', () => {
+  it('writes hints as a list and snippets as fenced code', () => {
+    expect(toMarkdown(DUMP)).toBe(
+      [
+        '# Hash map',
+        `[Two Sum](${PROBLEM})`,
+        '### You\n\nHelp?',
+        '### Assistant · openai_4o',
+        'Store what you have seen.',
+        '- Use a map\n- Look up the complement',
+        '````javascript\nconst seen = new Map() // ```\n````',
+        '### Assistant · cancelled\n\n<b>Stopped</b>',
+      ].join('\n\n') + '\n'
+    )
+  })
+
+  it('does not link keys that are no URL', () => {
+    const dump = {
+      ...DUMP,
+      threads: [{ ...DUMP.threads[0], problemName: 'two-sum', pageTitle: '' }],
+    }
+
+    expect(toMarkdown(dump)).toContain('# Hash map\n\ntwo-sum\n\n')
+  })
+})
+
+describe('toHtml', () => {
+  it('escapes the text of the messages', () => {
+    const html = toHtml(DUMP)
+
+    expect(html).toContain('<p>&lt;b&gt;Stopped&lt;/b&gt;</p>')
+    expect(html).toContain(`<a href="${PROBLEM}">Two Sum</a>`)
+    expect(html).toContain(
+      '<pre><code class="language-javascript">const seen = new Map() // ```</code></pre>'
+    )
+    expect(html).not.toContain('<b>')
+  })
+})
+
+describe('parseConversationImport', () => {
+  it('reads back the JSON export without loss', () => {
+    expect(parseConversationImport(toJson(DUMP), PROBLEM)).toEqual({
+      error: null,
+      success: DUMP,
+    })
+  })
+
+  it('puts a bare list of messages into a new thread', () => {
+    const result = parseConversationImport(
+      JSON.stringify([
+        { role: 'user', content: 'Help?' },
+        { role: 'assistant', content: { feedback: 'Sure.' } },
+      ]),
+      PROBLEM
+    )
+
+    expect(result.success?.threads).toEqual([
+      expect.objectContaining({
+        problemName: PROBLEM,
+        title: IMPORTED_THREAD_TITLE,
+      }),
+    ])
+    expect(result.success?.messages).toEqual([
+      expect.objectContaining({
+        threadId: result.success?.threads[0].id,
+        content: 'Help?',
+      }),
+      expect.objectContaining({ content: { feedback: 'Sure.' } }),
+    ])
+  })
+
+  it.each([
+    ['{', 'The file is not valid JSON.'],
+    [
+      '{"threads":[]}',
+      'The file is not a conversation export of this extension.',
+    ],
+    ['[{"role":"user"}]', 'Invalid message at 0.content: Invalid input'],
+  ])('rejects %s', (text, error) => {
+    expect(parseConversationImport(text, PROBLEM)).toEqual({
+      error,
+      success: null,
+    })
+  })
+
+  it('rejects messages of threads the export does not contain', () => {
+    const dump = {
+      ...DUMP,
+      messages: [{ ...DUMP.messages[0], threadId: 'missing' }],
+    }
+
+    expect(parseConversationImport(toJson(dump), PROBLEM).error).toBe(
+      'The export has messages of threads it does not contain.'
+    )
+  })
+})
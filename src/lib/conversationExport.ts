@@ -0,0 +1,312 @@
+import { z } from 'zod'
+import {
+  ChatHistory,
+  ConversationDump,
+  ConversationExport,
+  CONVERSATION_EXPORT_FORMAT,
+} from '@/interface/chatHistory'
+import { chatHistorySchema, conversationDumpSchema } from '@/schema/messages'
+
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+}
+
+/**
+ * Title of the thread created for a file holding bare messages.
+ */
+export const IMPORTED_THREAD_TITLE = 'Imported chat'
+
+/**
+ * Whether a conversation key can be linked to; imported files may hold any
+ * string.
+ */
+const isWebUrl = (problemName: string) => /^https?:\/\//.test(problemName)
+
+const roleLabel = (message: ChatHistory) =>
+  message.role === 'user'
+    ? 'You'
+    : message.role === 'assistant'
+      ? 'Assistant'
+      : message.role
+
+/**
+ * Returns a markdown fence longer than every backtick run of the code.
+ */
+const fenceFor = (code: string) =>
+  '`'.repeat(
+    Math.max(3, ...(code.match(/`+/g) || []).map((run) => run.length + 1))
+  )
+
+const messageToMarkdown = (message: ChatHistory) => {
+  const heading = [roleLabel(message), message.model, message.status]
+    .filter(Boolean)
+    .join(' · ')
+  const { content } = message
+  if (typeof content === 'string') return `### ${heading}\n\n${content}`
+
+  const parts = [`### ${heading}`, content.feedback]
+  if (content.hints?.length) {
+    parts.push(content.hints.map((hint) => `- ${hint}`).join('\n'))
+  }
+  if (content.snippet) {
+    const fence = fenceFor(content.snippet)
+    parts.push(
+      `${fence}${content.programmingLanguage || ''}\n${content.snippet}\n${fence}`
+    )
+  }
+  return parts.join('\n\n')
+}
+
+/**
+ * Formats conversations as markdown: hints become lists and snippets fenced
+ * code blocks tagged with their language.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ * @returns {string}
+ */
+export const toMarkdown = ({ threads, messages }: ConversationDump) =>
+  threads
+    .map((thread) =>
+      [
+        `# ${thread.title}`,
+        isWebUrl(thread.problemName)
+          ? `[${thread.pageTitle || thread.problemName}](${thread.problemName})`
+          : thread.pageTitle || thread.problemName,
+        ...messages
+          .filter((message) => message.threadId === thread.id)
+          .map(messageToMarkdown),
+      ].join('\n\n')
+    )
+    .join('\n\n---\n\n') + '\n'
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+const messageToHtml = (message: ChatHistory) => {
+  const heading = [roleLabel(message), message.model, message.status]
+    .filter(Boolean)
+    .join(' · ')
+  const { content } = message
+  const body =
+    typeof content === 'string'
+      ? `<p>${escapeHtml(content)}</p>`
+      : [
+          `<p>${escapeHtml(content.feedback)}</p>`,
+          content.hints?.length
+            ? `<ul>${content.hints.map((hint) => `<li>${escapeHtml(hint)}</li>`).join('')}</ul>`
+            : '',
+          content.snippet
+            ? `<pre><code class="language-${escapeHtml(content.programmingLanguage || 'plaintext')}">${escapeHtml(content.snippet)}</code></pre>`
+            : '',
+        ].join('')
+  return `<section class="${message.role}"><h3>${escapeHtml(heading)}</h3>${body}</section>`
+}
+
+/**
+ * Formats conversations as a standalone HTML page.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ * @returns {string}
+ */
+export const toHtml = ({
+  threads,
+  messages,
+}: ConversationDump) => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(threads.map((thread) => thread.title).join(', '))}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+section { margin: 1rem 0; padding: 0.5rem 1rem; border-radius: 0.5rem; background: #f4f4f5; }
+section.user { background: #e0f2fe; }
+h3 { margin: 0.25rem 0; font-size: 0.875rem; color: #52525b; }
+p { white-space: pre-wrap; }
+pre { overflow-x: auto; padding: 0.75rem; border-radius: 0.5rem; background: #18181b; color: #fafafa; }
+</style>
+</head>
+<body>
+${threads
+  .map(
+    (thread) =>
+      `<article><h1>${escapeHtml(thread.title)}</h1><p>${
+        isWebUrl(thread.problemName)
+          ? `<a href="${escapeHtml(thread.problemName)}">${escapeHtml(thread.pageTitle || thread.problemName)}</a>`
+          : escapeHtml(thread.pageTitle || thread.problemName)
+      }</p>${messages
+        .filter((message) => message.threadId === thread.id)
+        .map(messageToHtml)
+        .join('\n')}</article>`
+  )
+  .join('\n<hr />\n')}
+</body>
+</html>
+`
+
+/**
+ * Formats conversations as JSON that `parseConversationImport` reads back
+ * without loss.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ * @returns {string}
+ */
+export const toJson = (dump: ConversationDump) => {
+  const file: ConversationExport = {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    ...dump,
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+const FORMATTERS: Record<ExportFormat, (dump: ConversationDump) => string> = {
+  markdown: toMarkdown,
+  json: toJson,
+  html: toHtml,
+}
+
+/**
+ * Saves text as a file through the browser's download.
+ *
+ * @param {string} filename - The suggested file name.
+ * @param {string} content - The content of the file.
+ * @param {string} mimeType - The type of the content.
+ */
+export const downloadFile = (
+  filename: string,
+  content: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Saves conversations as a file through the browser's download.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ * @param {ExportFormat} format - The file format.
+ */
+export const downloadConversations = (
+  dump: ConversationDump,
+  format: ExportFormat
+) => {
+  const { extension, mimeType } = EXPORT_FORMATS[format]
+  const name =
+    (dump.threads.length === 1 ? dump.threads[0].title : 'conversations')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'conversation'
+
+  downloadFile(`${name}.${extension}`, FORMATTERS[format](dump), mimeType)
+}
+
+const describeIssue = (error: z.ZodError) => {
+  const [issue] = error.issues
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message
+}
+
+/**
+ * Reads a JSON file to import: a file written by the JSON export, or a bare
+ * list of messages, which goes into a new thread of `problemName`.
+ *
+ * @param {string} text - The content of the file.
+ * @param {string} problemName - The conversation key for bare messages.
+ * @returns {{ error: string | null, success: ConversationDump | null }}
+ */
+export const parseConversationImport = (
+  text: string,
+  problemName: string
+):
+  | { error: string; success: null }
+  | { error: null; success: ConversationDump } => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { error: 'The file is not valid JSON.', success: null }
+  }
+
+  if (Array.isArray(data)) {
+    const parsed = z.array(chatHistorySchema).safeParse(data)
+    if (!parsed.success) {
+      return {
+        error: `Invalid message at ${describeIssue(parsed.error)}`,
+        success: null,
+      }
+    }
+
+    const now = Date.now()
+    const threadId = crypto.randomUUID()
+    return {
+      error: null,
+      success: {
+        threads: [
+          {
+            id: threadId,
+            problemName,
+            title: IMPORTED_THREAD_TITLE,
+            createdAt: now,
+            updatedAt: now,
+          },
+        ],
+        messages: parsed.data.map((message, index) => ({
+          ...message,
+          id: crypto.randomUUID(),
+          threadId,
+          createdAt: now + index,
+        })),
+      },
+    }
+  }
+
+  const header = z
+    .object({
+      format: z.literal(CONVERSATION_EXPORT_FORMAT),
+      version: z.literal(1),
+    })
+    .safeParse(data)
+  if (!header.success) {
+    return {
+      error: 'The file is not a conversation export of this extension.',
+      success: null,
+    }
+  }
+
+  const parsed = conversationDumpSchema.safeParse(data)
+  if (!parsed.success) {
+    return {
+      error: `Invalid export at ${describeIssue(parsed.error)}`,
+      success: null,
+    }
+  }
+  const threadIds = new Set(parsed.data.threads.map((thread) => thread.id))
+  if (
+    parsed.data.messages.some((message) => !threadIds.has(message.threadId))
+  ) {
+    return {
+      error: 'The export has messages of threads it does not contain.',
+      success: null,
+    }
+  }
+  return { error: null, success: parsed.data }
+}
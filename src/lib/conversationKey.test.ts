@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { getCanonicalUrl, resolveConversationKey } from '@/lib/conversationKey'
+
+describe('resolveConversationKey', () => {
+  it.each([
+    'https://leetcode.com/problems/two-sum/',
+    'https://leetcode.com/problems/two-sum/description/',
+    'https://www.leetcode.com/problems/two-sum/editorial/?envType=daily',
+    'https://leetcode.com/problems/two-sum/submissions/123456/#result',
+  ])('keys the LeetCode tab %s by the problem', (href) => {
+    expect(resolveConversationKey(href)).toBe(
+      'https://leetcode.com/problems/two-sum/'
+    )
+  })
+
+  it('keeps leetcode.cn apart from leetcode.com', () => {
+    expect(
+      resolveConversationKey('https://leetcode.cn/problems/two-sum/solutions/')
+    ).toBe('https://leetcode.cn/problems/two-sum/')
+  })
+
+  it.each([
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s',
+    'https://m.youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://youtu.be/dQw4w9WgXcQ?si=abc',
+    'https://www.youtube.com/shorts/dQw4w9WgXcQ',
+    'https://www.youtube.com/embed/dQw4w9WgXcQ',
+  ])('keys the YouTube URL %s by the video', (href) => {
+    expect(resolveConversationKey(href)).toBe(
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ'
+    )
+  })
+
+  it('keys other YouTube pages by their URL', () => {
+    expect(resolveConversationKey('https://www.youtube.com/feed/history')).toBe(
+      'https://www.youtube.com/feed/history'
+    )
+  })
+
+  it('keys other pages by their canonical URL', () => {
+    expect(
+      resolveConversationKey(
+        'https://example.com/Blog/post/?utm_source=x&page=2#comments'
+      )
+    ).toBe('https://example.com/Blog/post?page=2')
+  })
+
+  it.each(['two-sum', 'chrome-extension://abc/history.html'])(
+    'returns %s unchanged',
+    (key) => {
+      expect(resolveConversationKey(key)).toBe(key)
+    }
+  )
+})
+
+describe('getCanonicalUrl', () => {
+  it('drops tracking parameters and keeps the others in order', () => {
+    expect(
+      getCanonicalUrl(
+        new URL('https://example.com/?b=2&fbclid=x&a=1&utm_medium=email')
+      )
+    ).toBe('https://example.com/?b=2&a=1')
+  })
+
+  it('keeps the root path', () => {
+    expect(getCanonicalUrl(new URL('https://EXAMPLE.com///'))).toBe(
+      'https://example.com/'
+    )
+  })
+})
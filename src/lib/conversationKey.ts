@@ -0,0 +1,94 @@
+/**
+ * Query parameters that track where a visit came from and never change the
+ * page.
+ */
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^fbclid$/,
+  /^gclid$/,
+  /^mc_eid$/,
+  /^ref_src$/,
+]
+
+/**
+ * A site's rule for turning the URLs of one page into a single key.
+ */
+interface ConversationKeyRule {
+  /**
+   * Returns the key of a URL, or null when the rule doesn't apply to it.
+   */
+  normalize(url: URL): string | null
+}
+
+/**
+ * Site rules, most specific first. URLs no rule applies to get their
+ * canonical URL as key.
+ */
+const CONVERSATION_KEY_RULES: ConversationKeyRule[] = [
+  {
+    // LeetCode: the description, editorial and submissions tabs of a
+    // problem share its slug.
+    normalize: (url) => {
+      const match = url.hostname.match(/^(?:www\.)?leetcode\.(com|cn)$/)
+      const slug = url.pathname.match(/^\/problems\/([^/]+)/)?.[1]
+      return match && slug
+        ? `https://leetcode.${match[1]}/problems/${slug}/`
+        : null
+    },
+  },
+  {
+    // YouTube: watch pages, short links, shorts and embeds of a video share
+    // its id.
+    normalize: (url) => {
+      const host = url.hostname.replace(/^(www\.|m\.|music\.)/, '')
+      const videoId =
+        host === 'youtu.be'
+          ? url.pathname.slice(1).split('/')[0]
+          : host === 'youtube.com'
+            ? url.searchParams.get('v') ||
+              url.pathname.match(/^\/(?:shorts|embed|live)\/([^/]+)/)?.[1]
+            : null
+      return videoId ? `https://www.youtube.com/watch?v=${videoId}` : null
+    },
+  },
+]
+
+/**
+ * Returns a URL without its fragment, tracking parameters and trailing slash.
+ *
+ * @param {URL} url - The URL to normalize.
+ * @returns {string}
+ */
+export const getCanonicalUrl = (url: URL): string => {
+  const params = new URLSearchParams(
+    Array.from(url.searchParams).filter(
+      ([name]) => !TRACKING_PARAMS.some((pattern) => pattern.test(name))
+    )
+  )
+  const path = url.pathname.replace(/\/+$/, '') || '/'
+  const query = params.toString()
+  return `${url.protocol}//${url.host.toLowerCase()}${path}${query ? `?${query}` : ''}`
+}
+
+/**
+ * Returns the key a page's conversation is stored under, so every URL of the
+ * same problem, video or page continues the same chat.
+ *
+ * @param {string} href - The page URL, or a key stored by an earlier version.
+ * @returns {string} The key; strings that are no URL are returned unchanged.
+ */
+export const resolveConversationKey = (href: string): string => {
+  let url: URL
+  try {
+    url = new URL(href)
+  } catch {
+    return href
+  }
+  if (!/^https?:$/.test(url.protocol)) return href
+
+  for (const rule of CONVERSATION_KEY_RULES) {
+    const key = rule.normalize(url)
+    if (key) return key
+  }
+  return getCanonicalUrl(url)
+}
@@ -0,0 +1,84 @@
+/**
+ * Converts rendered HTML, e.g. a problem statement, to markdown. Covers the
+ * elements LeetCode statements use; unknown elements keep their text.
+ *
+ * @param {Node} node - The element to convert.
+ * @returns {string}
+ */
+export const htmlToMarkdown = (node: Node): string =>
+  convert(node)
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+const convertChildren = (node: Node) =>
+  Array.from(node.childNodes).map(convert).join('')
+
+const convert = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/\s+/g, ' ')
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+  const element = node as Element
+  const content = () => convertChildren(element)
+  switch (element.tagName.toLowerCase()) {
+    case 'script':
+    case 'style':
+      return ''
+    case 'br':
+      return '\n'
+    case 'p':
+    case 'div':
+      return `\n\n${content().trim()}\n\n`
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+      return `\n\n${'#'.repeat(Number(element.tagName[1]))} ${content().trim()}\n\n`
+    case 'strong':
+    case 'b':
+      return wrapInline(content(), '**')
+    case 'em':
+    case 'i':
+      return wrapInline(content(), '*')
+    case 'code':
+      return wrapInline(content(), '`')
+    case 'pre':
+      return `\n\n\`\`\`\n${(element.textContent || '').trim()}\n\`\`\`\n\n`
+    case 'sup':
+      return `^${content()}`
+    case 'sub':
+      return `_${content()}`
+    case 'a': {
+      const href = element.getAttribute('href')
+      return href ? `[${content()}](${href})` : content()
+    }
+    case 'img':
+      return `![${element.getAttribute('alt') || ''}](${element.getAttribute('src') || ''})`
+    case 'ul':
+    case 'ol': {
+      const isOrdered = element.tagName.toLowerCase() === 'ol'
+      const items = Array.from(element.children)
+        .filter((child) => child.tagName.toLowerCase() === 'li')
+        .map(
+          (item, index) =>
+            `${isOrdered ? `${index + 1}.` : '-'} ${htmlToMarkdown(item)}`
+        )
+      return `\n\n${items.join('\n')}\n\n`
+    }
+    default:
+      return content()
+  }
+}
+
+/**
+ * Wraps inline text in a markdown marker, keeping surrounding spaces outside
+ * the marker so it still renders.
+ */
+const wrapInline = (text: string, marker: string) => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)
+  if (!match || !match[2]) return text
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`
+}
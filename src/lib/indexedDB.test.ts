@@ -0,0 +1,196 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { openDB } from 'idb'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ChatHistory } from '@/interface/chatHistory'
+import {
+  appendMessages,
+  clearChatHistory,
+  createThread,
+  deleteThreads,
+  getAllMessages,
+  getAllThreads,
+  getMessagePage,
+  getThread,
+  importNewConversations,
+  readLocalConversations,
+} from '@/lib/indexedDB'
+
+const createMessages = (count: number): ChatHistory[] =>
+  Array.from({ length: count }, (_, index) => ({
+    role: index % 2 ? 'assistant' : 'user',
+    content: `Message ${index}`,
+  }))
+
+const contents = (messages: ChatHistory[]) =>
+  messages.map((message) => message.content)
+
+const createThreadWith = async (count: number) => {
+  const thread = await createThread('https://leetcode.com/problems/two-sum/')
+  await appendMessages(thread.id, createMessages(count))
+  return thread.id
+}
+
+describe('getMessagePage', () => {
+  it('walks back from the newest messages', async () => {
+    const threadId = await createThreadWith(25)
+
+    const newest = await getMessagePage(threadId, 10)
+    expect(contents(newest.messages)).toEqual(
+      contents(createMessages(25).slice(15))
+    )
+
+    const older = await getMessagePage(threadId, 10, newest.nextCursor!)
+    expect(contents(older.messages)).toEqual(
+      contents(createMessages(25).slice(5, 15))
+    )
+
+    const oldest = await getMessagePage(threadId, 10, older.nextCursor!)
+    expect(contents(oldest.messages)).toEqual(
+      contents(createMessages(25).slice(0, 5))
+    )
+    expect(oldest.nextCursor).toBe(null)
+  })
+
+  it('has no previous page when the thread fits into one', async () => {
+    const threadId = await createThreadWith(10)
+
+    const page = await getMessagePage(threadId, 10)
+    expect(page.messages).toHaveLength(10)
+    expect(page.nextCursor).toBe(null)
+  })
+
+  it('only returns the messages of the thread', async () => {
+    const threadId = await createThreadWith(3)
+    await createThreadWith(3)
+
+    expect((await getMessagePage(threadId, 10)).messages).toHaveLength(3)
+  })
+})
+
+describe('appendMessages', () => {
+  it('keeps the order of messages stored in the same millisecond', async () => {
+    const threadId = await createThreadWith(50)
+
+    expect(contents(await getAllMessages(threadId))).toEqual(
+      contents(createMessages(50))
+    )
+  })
+
+  it('stores nothing for a deleted thread', async () => {
+    const threadId = await createThreadWith(0)
+    await deleteThreads([threadId])
+
+    await expect(appendMessages(threadId, createMessages(1))).resolves.toEqual(
+      []
+    )
+    expect(await getAllMessages(threadId)).toEqual([])
+  })
+})
+
+describe('removing messages', () => {
+  it('clears a thread but keeps it', async () => {
+    const threadId = await createThreadWith(3)
+    await clearChatHistory(threadId)
+
+    expect(await getAllMessages(threadId)).toEqual([])
+    expect(await getAllThreads()).toContainEqual(
+      expect.objectContaining({ id: threadId, messageCount: 0 })
+    )
+  })
+
+  it('deletes threads with their messages', async () => {
+    const threadId = await createThreadWith(3)
+    await deleteThreads([threadId])
+
+    expect(await getAllMessages(threadId)).toEqual([])
+    expect(
+      (await getAllThreads()).some((thread) => thread.id === threadId)
+    ).toBe(false)
+  })
+})
+
+describe('importNewConversations', () => {
+  it('leaves stored threads and messages alone', async () => {
+    const threadId = await createThreadWith(1)
+    const [stored] = await getAllMessages(threadId)
+    const thread = (await getThread(threadId))!
+
+    await importNewConversations({
+      threads: [
+        { ...thread, title: 'Taken over' },
+        { ...thread, id: 'new-thread' },
+      ],
+      messages: [
+        { ...stored, content: 'Rewritten' },
+        { ...stored, id: 'new-message', threadId },
+        { ...stored, content: 'Moved', threadId: 'new-thread' },
+      ],
+    })
+
+    expect(await getThread(threadId)).toEqual(thread)
+    expect(contents(await getAllMessages(threadId))).toEqual(['Message 0'])
+    expect(await getAllMessages('new-thread')).toEqual([])
+  })
+})
+
+describe('readLocalConversations', () => {
+  beforeEach(() => {
+    // The database of the page's origin, apart from the extension's.
+    vi.stubGlobal('indexedDB', new IDBFactory())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  /**
+   * Creates a `chat-db` with a `chats` store in the page's origin.
+   */
+  const createLocalDatabase = async (keyPath: string, records: object[]) => {
+    const db = await openDB('chat-db', 1, {
+      upgrade: (db) => db.createObjectStore('chats', { keyPath }),
+    })
+    for (const record of records) await db.put('chats', record)
+    db.close()
+  }
+
+  const localVersion = async () =>
+    (await indexedDB.databases()).find(({ name }) => name === 'chat-db')
+      ?.version
+
+  it('reads the conversations of the first version without upgrading it', async () => {
+    await createLocalDatabase('problemName', [
+      {
+        problemName: 'https://leetcode.com/problems/two-sum/',
+        chatHistory: createMessages(2),
+      },
+      {
+        problemName: 'https://leetcode.com/problems/two-sum/description/',
+        chatHistory: createMessages(3).slice(2),
+      },
+    ])
+
+    const dump = await readLocalConversations()
+    expect(dump?.threads).toEqual([
+      expect.objectContaining({
+        problemName: 'https://leetcode.com/problems/two-sum/',
+      }),
+    ])
+    expect(contents(dump!.messages)).toEqual(contents(createMessages(3)))
+    expect(await localVersion()).toBe(1)
+  })
+
+  it.each([
+    ['other keys', 'id', { id: 'cart', items: [] }],
+    ['other records', 'problemName', { problemName: 'cart', items: [] }],
+  ])(
+    'leaves a database of the page with %s alone',
+    async (_, keyPath, record) => {
+      await createLocalDatabase(keyPath, [record])
+
+      await expect(readLocalConversations()).resolves.toBe(null)
+      expect(await localVersion()).toBe(1)
+    }
+  )
+})
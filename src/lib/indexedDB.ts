@@ -1,54 +1,701 @@
-import { openDB, DBSchema } from 'idb'
-import { ChatHistory } from '@/interface/chatHistory'
+import {
+  deleteDB,
+  openDB,
+  DBSchema,
+  IDBPDatabase,
+  IDBPObjectStore,
+  IDBPTransaction,
+  StoreNames,
+} from 'idb'
+import {
+  ChatHistory,
+  ChatThread,
+  ConversationDump,
+  ConversationSummary,
+  getMessageText,
+  MessagePage,
+  MessageSearchHit,
+  StoredChatMessage,
+  ThreadOverview,
+} from '@/interface/chatHistory'
+import { resolveConversationKey } from './conversationKey'
 
 interface ChatDB extends DBSchema {
+  /**
+   * One conversation per problem. Replaced by `threads` in version 3.
+   */
   chats: {
     key: string
-    value: { problemName: string; chatHistory: ChatHistory[] }
+    value: {
+      problemName: string
+      chatHistory: ChatHistory[]
+      summary?: ConversationSummary
+    }
+  }
+  threads: {
+    key: string
+    value: ChatThread & {
+      summary?: ConversationSummary
+      /**
+       * The messages, in version 3 only. Moved to `messages` in version 4.
+       */
+      chatHistory?: ChatHistory[]
+    }
+    indexes: { 'by-problem': string }
+  }
+  messages: {
+    key: string
+    value: StoredChatMessage
+    indexes: { 'by-thread-time': [string, number] }
   }
 }
 
-const dbPromise = openDB<ChatDB>('chat-db', 1, {
-  upgrade(db) {
-    db.createObjectStore('chats', { keyPath: 'problemName' })
-  },
+type ChatRecord = ChatDB['chats']['value']
+type ThreadRecord = ChatDB['threads']['value']
+
+/**
+ * Title of the threads created without one, and of the threads migrated from
+ * the single conversation of earlier versions.
+ */
+export const DEFAULT_THREAD_TITLE = 'New chat'
+
+/**
+ * Merges the records stored under different URLs of the same conversation,
+ * which earlier versions keyed by the full URL, into one record under the
+ * conversation key. Records carry no timestamps, so their histories are
+ * joined in the order of their URLs. The summaries of merged records are
+ * dropped, as they no longer match the history, and rebuilt when needed.
+ */
+const mergeChatRecords = (records: ChatRecord[]): ChatRecord[] => {
+  const groups = new Map<string, ChatRecord[]>()
+  for (const record of [...records].sort((a, b) =>
+    a.problemName.localeCompare(b.problemName)
+  )) {
+    const key = resolveConversationKey(record.problemName)
+    groups.set(key, [...(groups.get(key) || []), record])
+  }
+
+  return Array.from(groups, ([key, records]) =>
+    records.length === 1 && records[0].problemName === key
+      ? records[0]
+      : {
+          problemName: key,
+          chatHistory: records.flatMap((record) => record.chatHistory),
+          summary: records.length === 1 ? records[0].summary : undefined,
+        }
+  )
+}
+
+/**
+ * Builds the first thread of every problem from its single conversation.
+ */
+const toThreadRecords = (chats: ChatRecord[]): ThreadRecord[] => {
+  const now = Date.now()
+  return chats.map((chat) => ({
+    id: crypto.randomUUID(),
+    problemName: chat.problemName,
+    title: DEFAULT_THREAD_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    chatHistory: chat.chatHistory,
+    summary: chat.summary,
+  }))
+}
+
+/**
+ * Moves the messages of every thread into records of their own. Messages
+ * get consecutive timestamps from the thread's creation on, which keeps their
+ * order.
+ */
+const splitThreadMessages = (records: ThreadRecord[]): ConversationDump => ({
+  threads: records.map(({ chatHistory = [], ...thread }) => ({
+    ...thread,
+    updatedAt: Math.max(
+      thread.updatedAt,
+      thread.createdAt + chatHistory.length
+    ),
+  })),
+  messages: records.flatMap(({ chatHistory = [], ...thread }) =>
+    chatHistory.map((message, index) => ({
+      ...message,
+      id: crypto.randomUUID(),
+      threadId: thread.id,
+      createdAt: thread.createdAt + index,
+    }))
+  ),
 })
 
-export const saveChatHistory = async (
-  problemName: string,
-  history: ChatHistory[]
+/**
+ * Rewrites the `chats` store with its records merged by conversation key.
+ */
+const mergeConversationKeys = async (
+  store: IDBPObjectStore<ChatDB, StoreNames<ChatDB>[], 'chats', 'versionchange'>
+) => {
+  const merged = mergeChatRecords(await store.getAll())
+  await store.clear()
+  for (const record of merged) await store.put(record)
+}
+
+/**
+ * Turns the conversation of every problem into its first thread and drops the
+ * `chats` store.
+ */
+const migrateChatsToThreads = async (
+  db: IDBPDatabase<ChatDB>,
+  transaction: IDBPTransaction<ChatDB, StoreNames<ChatDB>[], 'versionchange'>
+) => {
+  const threads = db.createObjectStore('threads', { keyPath: 'id' })
+  threads.createIndex('by-problem', 'problemName')
+
+  const chats = await transaction.objectStore('chats').getAll()
+  for (const thread of toThreadRecords(chats)) await threads.put(thread)
+  db.deleteObjectStore('chats')
+}
+
+/**
+ * Creates the `messages` store and moves the messages of every thread into it.
+ */
+const migrateMessagesToRecords = async (
+  db: IDBPDatabase<ChatDB>,
+  transaction: IDBPTransaction<ChatDB, StoreNames<ChatDB>[], 'versionchange'>
 ) => {
-  const db = await dbPromise
-  await db.put('chats', { problemName, chatHistory: history })
+  const messages = db.createObjectStore('messages', { keyPath: 'id' })
+  messages.createIndex('by-thread-time', ['threadId', 'createdAt'])
+
+  const threads = transaction.objectStore('threads')
+  const dump = splitThreadMessages(await threads.getAll())
+  for (const thread of dump.threads) await threads.put(thread)
+  for (const message of dump.messages) await messages.put(message)
+}
+
+/**
+ * Name of the database. It lives in the extension's origin, where the
+ * background and the history page open it; content scripts reach it through
+ * the background. Earlier versions kept one database per site, which content
+ * scripts import once (see `readLocalConversations`).
+ */
+const DB_NAME = 'chat-db'
+const DB_VERSION = 4
+
+const openChatDB = () =>
+  openDB<ChatDB>(DB_NAME, DB_VERSION, {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
+      if (oldVersion < 1) {
+        db.createObjectStore('chats', { keyPath: 'problemName' })
+      }
+      if (oldVersion < 2) {
+        await mergeConversationKeys(transaction.objectStore('chats'))
+      }
+      if (oldVersion < 3) {
+        await migrateChatsToThreads(db, transaction)
+      }
+      if (oldVersion < 4) {
+        await migrateMessagesToRecords(db, transaction)
+      }
+    },
+  })
+
+let dbPromise: Promise<IDBPDatabase<ChatDB>> | null = null
+
+/**
+ * Opens the database on first use, so contexts that merely import this module
+ * don't create it in their origin.
+ */
+const getDB = () => {
+  dbPromise = dbPromise || openChatDB()
+  return dbPromise
 }
 
-export const getChatHistory = async (
+let lastTimestamp = 0
+
+/**
+ * Returns the current time, but always later than the last timestamp handed
+ * out, so messages saved in the same millisecond keep their order.
+ */
+const nextTimestamp = () => {
+  lastTimestamp = Math.max(Date.now(), lastTimestamp + 1)
+  return lastTimestamp
+}
+
+/**
+ * Key range of a thread's messages, optionally only those created before a
+ * timestamp.
+ */
+const threadMessagesRange = (threadId: string, before = Infinity) =>
+  IDBKeyRange.bound([threadId, -Infinity], [threadId, before], false, true)
+
+/**
+ * Deletes every message of a thread within a transaction.
+ */
+const deleteThreadMessages = async (
+  tx: IDBPTransaction<ChatDB, ('threads' | 'messages')[], 'readwrite'>,
+  threadId: string
+) => {
+  let cursor = await tx
+    .objectStore('messages')
+    .index('by-thread-time')
+    .openCursor(threadMessagesRange(threadId))
+  while (cursor) {
+    await cursor.delete()
+    cursor = await cursor.continue()
+  }
+}
+
+const toThread = ({
+  id,
+  problemName,
+  title,
+  pageTitle,
+  createdAt,
+  updatedAt,
+}: ThreadRecord): ChatThread => ({
+  id,
+  problemName,
+  title,
+  pageTitle,
+  createdAt,
+  updatedAt,
+})
+
+/**
+ * Lists the threads of a problem, most recently updated first.
+ */
+export const getThreads = async (problemName: string) => {
+  const db = await getDB()
+  const records = await db.getAllFromIndex('threads', 'by-problem', problemName)
+  return records.map(toThread).sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * Reads a thread, e.g. to check which site it belongs to.
+ *
+ * @param {string} threadId - The thread.
+ * @returns {Promise<ChatThread | undefined>}
+ */
+export const getThread = async (threadId: string) => {
+  const db = await getDB()
+  const record = await db.get('threads', threadId)
+  return record && toThread(record)
+}
+
+export const createThread = async (
   problemName: string,
+  title: string = DEFAULT_THREAD_TITLE,
+  pageTitle?: string
+) => {
+  const db = await getDB()
+  const now = Date.now()
+  const record: ThreadRecord = {
+    id: crypto.randomUUID(),
+    problemName,
+    title,
+    pageTitle,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await db.put('threads', record)
+  return toThread(record)
+}
+
+export const renameThread = async (threadId: string, title: string) => {
+  const db = await getDB()
+  const existing = await db.get('threads', threadId)
+  if (!existing) return
+  await db.put('threads', { ...existing, title, updatedAt: Date.now() })
+}
+
+/**
+ * Appends messages to a thread.
+ *
+ * @param {string} threadId - The thread.
+ * @param {ChatHistory[]} messages - The messages, oldest first.
+ * @returns {Promise<StoredChatMessage[]>} The stored messages, or an empty
+ * list when the thread does not exist (anymore).
+ */
+export const appendMessages = async (
+  threadId: string,
+  messages: ChatHistory[]
+): Promise<StoredChatMessage[]> => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'], 'readwrite')
+  const thread = await tx.objectStore('threads').get(threadId)
+  if (!thread) {
+    await tx.done
+    return []
+  }
+
+  const stored = messages.map((message) => ({
+    ...message,
+    id: crypto.randomUUID(),
+    threadId,
+    createdAt: nextTimestamp(),
+  }))
+  for (const message of stored) await tx.objectStore('messages').put(message)
+  await tx.objectStore('threads').put({ ...thread, updatedAt: Date.now() })
+  await tx.done
+  return stored
+}
+
+/**
+ * Loads a page of a thread's messages, walking back from the newest.
+ *
+ * @param {string} threadId - The thread.
+ * @param {number} limit - The page size.
+ * @param {number} [before] - The cursor returned with the newer page.
+ * @returns {Promise<MessagePage>}
+ */
+export const getMessagePage = async (
+  threadId: string,
   limit: number,
-  offset: number
+  before?: number
+): Promise<MessagePage> => {
+  const db = await getDB()
+  const index = db.transaction('messages').store.index('by-thread-time')
+
+  const messages: StoredChatMessage[] = []
+  let cursor = await index.openCursor(
+    threadMessagesRange(threadId, before),
+    'prev'
+  )
+  while (cursor && messages.length < limit) {
+    messages.unshift(cursor.value)
+    cursor = await cursor.continue()
+  }
+
+  return {
+    messages,
+    nextCursor: cursor && messages.length > 0 ? messages[0].createdAt : null,
+  }
+}
+
+/**
+ * Loads every message of a thread, oldest first.
+ */
+export const getAllMessages = async (threadId: string) => {
+  const db = await getDB()
+  return db.getAllFromIndex(
+    'messages',
+    'by-thread-time',
+    threadMessagesRange(threadId)
+  )
+}
+
+export const getConversationSummary = async (threadId: string) => {
+  const db = await getDB()
+  return (await db.get('threads', threadId))?.summary
+}
+
+export const saveConversationSummary = async (
+  threadId: string,
+  summary: ConversationSummary
 ) => {
-  const db = await dbPromise
-  const chatData = await db.get('chats', problemName)
-  if (!chatData) return { totalMessageCount: 0, chatHistory: [] }
+  const db = await getDB()
+  const existing = await db.get('threads', threadId)
+  if (!existing) return
+  await db.put('threads', { ...existing, summary })
+}
+
+/**
+ * Removes the messages and the summary of a thread, keeping the thread.
+ */
+export const clearChatHistory = async (threadId: string) => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'], 'readwrite')
+  await deleteThreadMessages(tx, threadId)
+  const existing = await tx.objectStore('threads').get(threadId)
+  if (existing) {
+    await tx.objectStore('threads').put({
+      ...existing,
+      summary: undefined,
+      updatedAt: Date.now(),
+    })
+  }
+  await tx.done
+}
 
-  const { chatHistory } = chatData
-  const totalMessageCount = chatHistory.length
+/**
+ * Lists every thread of every problem with its message count, most recently
+ * updated first.
+ *
+ * @returns {Promise<ThreadOverview[]>}
+ */
+export const getAllThreads = async (): Promise<ThreadOverview[]> => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'])
+  const index = tx.objectStore('messages').index('by-thread-time')
 
-  // Fetch the slice of chat history based on limit and offset
-  const slicedHistory = chatHistory.slice(
-    Math.max(totalMessageCount - offset - limit, 0),
-    totalMessageCount - offset
+  const overviews: ThreadOverview[] = []
+  for (const record of await tx.objectStore('threads').getAll()) {
+    overviews.push({
+      ...toThread(record),
+      messageCount: await index.count(threadMessagesRange(record.id)),
+    })
+  }
+  await tx.done
+  return overviews.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * Deletes threads together with their messages.
+ */
+export const deleteThreads = async (threadIds: string[]) => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'], 'readwrite')
+  for (const threadId of threadIds) {
+    await deleteThreadMessages(tx, threadId)
+    await tx.objectStore('threads').delete(threadId)
+  }
+  await tx.done
+}
+
+/**
+ * Finds the messages whose text contains every word of a query, ignoring
+ * case, newest first.
+ *
+ * @param {string} query - The words to look for.
+ * @param {number} [limit] - The maximum number of hits.
+ * @returns {Promise<MessageSearchHit[]>}
+ */
+export const searchMessages = async (
+  query: string,
+  limit = 100
+): Promise<MessageSearchHit[]> => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return []
+
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'])
+  const threads = new Map(
+    (await tx.objectStore('threads').getAll()).map((record) => [
+      record.id,
+      toThread(record),
+    ])
   )
+
+  const hits: MessageSearchHit[] = []
+  for (const message of await tx.objectStore('messages').getAll()) {
+    const thread = threads.get(message.threadId)
+    const text = getMessageText(message).toLowerCase()
+    if (thread && words.every((word) => text.includes(word))) {
+      hits.push({ thread, message })
+    }
+  }
+  await tx.done
+  return hits
+    .sort((a, b) => b.message.createdAt - a.message.createdAt)
+    .slice(0, limit)
+}
+
+/**
+ * Reads threads with their summaries and messages, e.g. to export them.
+ * Unknown ids are skipped.
+ *
+ * @param {string[]} threadIds - The threads.
+ * @returns {Promise<ConversationDump>}
+ */
+export const exportConversations = async (
+  threadIds: string[]
+): Promise<ConversationDump> => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'])
+  const dump: ConversationDump = { threads: [], messages: [] }
+  for (const threadId of threadIds) {
+    const record = await tx.objectStore('threads').get(threadId)
+    if (!record) continue
+    dump.threads.push({ ...toThread(record), summary: record.summary })
+    dump.messages.push(
+      ...(await tx
+        .objectStore('messages')
+        .index('by-thread-time')
+        .getAll(threadMessagesRange(threadId)))
+    )
+  }
+  await tx.done
+  return dump
+}
+
+/**
+ * Merges threads and messages taken from another database or an export.
+ * Threads that already exist keep their title and summary; messages with the
+ * same id are stored once.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ */
+export const importConversations = async ({
+  threads,
+  messages,
+}: ConversationDump) => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'], 'readwrite')
+  for (const thread of threads) {
+    const existing = await tx.objectStore('threads').get(thread.id)
+    await tx.objectStore('threads').put(
+      existing
+        ? {
+            ...existing,
+            updatedAt: Math.max(existing.updatedAt, thread.updatedAt),
+          }
+        : thread
+    )
+  }
+  for (const message of messages) await tx.objectStore('messages').put(message)
+  await tx.done
+}
+
+/**
+ * Adds the threads of a dump that are not stored yet, with their messages.
+ * Unlike `importConversations`, stored threads and messages are never
+ * touched, whatever the dump claims.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ */
+export const importNewConversations = async ({
+  threads,
+  messages,
+}: ConversationDump) => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'], 'readwrite')
+  const added = new Set<string>()
+  for (const thread of threads) {
+    if (await tx.objectStore('threads').getKey(thread.id)) continue
+    await tx.objectStore('threads').put(thread)
+    added.add(thread.id)
+  }
+  for (const message of messages) {
+    if (
+      added.has(message.threadId) &&
+      !(await tx.objectStore('messages').getKey(message.id))
+    ) {
+      await tx.objectStore('messages').put(message)
+    }
+  }
+  await tx.done
+}
+
+/**
+ * Replaces every thread and message with those of a dump, in one
+ * transaction.
+ *
+ * @param {ConversationDump} dump - The threads and their messages.
+ */
+export const replaceConversations = async ({
+  threads,
+  messages,
+}: ConversationDump) => {
+  const db = await getDB()
+  const tx = db.transaction(['threads', 'messages'], 'readwrite')
+  await tx.objectStore('threads').clear()
+  await tx.objectStore('messages').clear()
+  for (const thread of threads) await tx.objectStore('threads').put(thread)
+  for (const message of messages) await tx.objectStore('messages').put(message)
+  await tx.done
+}
+
+type StoreLayout = { keyPath: string; indexes: string[] }
+
+const CHATS_LAYOUT = { chats: { keyPath: 'problemName', indexes: [] } }
+const THREADS_STORE = { keyPath: 'id', indexes: ['by-problem'] }
+
+/**
+ * The stores every version of the database has. Pages may have a database of
+ * the same name of their own, which won't match.
+ */
+const LAYOUTS: Record<number, Record<string, StoreLayout>> = {
+  1: CHATS_LAYOUT,
+  2: CHATS_LAYOUT,
+  3: { threads: THREADS_STORE },
+  4: {
+    threads: THREADS_STORE,
+    messages: { keyPath: 'id', indexes: ['by-thread-time'] },
+  },
+}
+
+const hasLayout = (
+  db: IDBPDatabase<unknown>,
+  layout: Record<string, StoreLayout>
+) => {
+  const names = Array.from(db.objectStoreNames)
+  if (names.sort().join() !== Object.keys(layout).sort().join()) return false
+
+  const tx = db.transaction(names, 'readonly')
+  return names.every((name) => {
+    const store = tx.objectStore(name)
+    const { keyPath, indexes } = layout[name]
+    return (
+      store.keyPath === keyPath &&
+      store.indexNames.length === indexes.length &&
+      indexes.every((index) => store.indexNames.contains(index))
+    )
+  })
+}
+
+const isChatRecord = (record: any): record is ChatRecord =>
+  typeof record?.problemName === 'string' && Array.isArray(record.chatHistory)
+
+const isThreadRecord = (record: any): record is ThreadRecord =>
+  typeof record?.id === 'string' && typeof record.problemName === 'string'
+
+/**
+ * Reads the records of a database of an earlier version and brings them into
+ * the current shape, in memory.
+ *
+ * @returns The conversations, or null when the records are not ones this
+ * extension wrote, or there are none.
+ */
+const readLocalRecords = async (
+  db: IDBPDatabase<unknown>
+): Promise<ConversationDump | null> => {
+  if (db.version < 3) {
+    const chats = await db.getAll('chats')
+    if (chats.length === 0 || !chats.every(isChatRecord)) return null
+    return splitThreadMessages(toThreadRecords(mergeChatRecords(chats)))
+  }
+
+  const threads = await db.getAll('threads')
+  if (threads.length === 0 || !threads.every(isThreadRecord)) return null
+  if (db.version === 3) {
+    return threads.every((thread) => Array.isArray(thread.chatHistory))
+      ? splitThreadMessages(threads)
+      : null
+  }
   return {
-    totalMessageCount,
-    chatHistory: slicedHistory,
-    allChatHistory: chatHistory || [],
+    threads: threads.map(({ chatHistory: _chatHistory, ...thread }) => thread),
+    messages: await db.getAll('messages'),
   }
 }
 
-export const clearChatHistory = async (problemName: string) => {
-  const db = await dbPromise
-  await db.delete('chats', problemName)
+/**
+ * Reads the database an earlier version kept in the origin of the current
+ * page. It is opened at its own version, so no upgrade ever runs on it, and
+ * only read when its stores and records are the ones this extension wrote.
+ *
+ * @returns {Promise<ConversationDump | null>} Its content, or null when the
+ * origin has no such database.
+ */
+export const readLocalConversations =
+  async (): Promise<ConversationDump | null> => {
+    const local = (await indexedDB.databases()).find(
+      (database) => database.name === DB_NAME
+    )
+    const version = local?.version
+    const layout = version ? LAYOUTS[version] : undefined
+    if (!version || !layout) return null
+
+    const db = await openDB(DB_NAME, version)
+    try {
+      return hasLayout(db, layout) ? await readLocalRecords(db) : null
+    } finally {
+      db.close()
+    }
+  }
+
+/**
+ * Deletes the database of the current origin. Only call it once
+ * `readLocalConversations` returned its content, which tells it is one of
+ * this extension, and the content was imported.
+ */
+export const deleteLocalDatabase = async () => {
+  await deleteDB(DB_NAME)
 }
 
 export const LIMIT_VALUE = 10
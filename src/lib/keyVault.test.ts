@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import { CustomEndpoint } from '@/interface/customEndpoint'
+import {
+  createVault,
+  getVaultKey,
+  lockVault,
+  unlockVault,
+} from '@/lib/keyVault'
+import { createFakeStorageArea } from '@/test/fakeStorage'
+
+const PASSPHRASE = 'correct horse battery'
+
+const ENDPOINT: CustomEndpoint = {
+  id: 'ollama',
+  name: 'Ollama',
+  baseURL: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+}
+
+describe('custom endpoint keys', () => {
+  let local: ReturnType<typeof createFakeStorageArea>
+
+  beforeEach(() => {
+    local = createFakeStorageArea()
+    vi.stubGlobal('chrome', {
+      storage: { local, session: createFakeStorageArea() },
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the key in the vault, not with the endpoint', async () => {
+    await createVault(PASSPHRASE)
+    const { setCustomEndpoints, getCustomEndpoints } = useChromeStorage()
+    await setCustomEndpoints([{ ...ENDPOINT, apiKey: 'sk-local' }])
+
+    expect(local.values['customEndpoints']).toEqual([ENDPOINT])
+    expect(JSON.stringify(local.values)).not.toContain('sk-local')
+    await expect(getVaultKey('custom:ollama')).resolves.toBe('sk-local')
+
+    // Saving the endpoint without a key keeps the stored one.
+    await setCustomEndpoints(await getCustomEndpoints())
+    await expect(getVaultKey('custom:ollama')).resolves.toBe('sk-local')
+
+    await setCustomEndpoints([])
+    await lockVault()
+    await unlockVault(PASSPHRASE)
+    await expect(getVaultKey('custom:ollama')).resolves.toBe(undefined)
+  })
+
+  it('refuses a key while the vault is locked', async () => {
+    await createVault(PASSPHRASE)
+    await lockVault()
+
+    await expect(
+      useChromeStorage().setCustomEndpoints([
+        { ...ENDPOINT, apiKey: 'sk-local' },
+      ])
+    ).rejects.toThrow('Unlock your keys first')
+  })
+
+  it('moves keys stored in plain text into the vault once it is unlocked', async () => {
+    await createVault(PASSPHRASE)
+    await lockVault()
+    local.values['customEndpoints'] = [{ ...ENDPOINT, apiKey: 'sk-legacy' }]
+
+    await unlockVault(PASSPHRASE)
+
+    expect(local.values['customEndpoints']).toEqual([ENDPOINT])
+    await expect(getVaultKey('custom:ollama')).resolves.toBe('sk-legacy')
+  })
+})
@@ -0,0 +1,456 @@
+import { CustomModel, PROVIDERS, VALID_MODELS } from '@/constants/valid_modals'
+import { BackupSecrets, RestoreMode } from '@/interface/backup'
+import { ProviderId } from '@/interface/catalog'
+import {
+  CUSTOM_MODEL_PREFIX,
+  CustomEndpoint,
+  toCustomModel,
+} from '@/interface/customEndpoint'
+
+/**
+ * Providers whose API keys are kept in the vault.
+ */
+export type VaultProvider = Exclude<ProviderId, 'custom'>
+
+/**
+ * What a key in the vault belongs to: a provider, or a custom endpoint by its
+ * model id.
+ */
+export type VaultEntry = VaultProvider | CustomModel
+
+const isEndpointEntry = (entry: VaultEntry): entry is CustomModel =>
+  entry.startsWith(CUSTOM_MODEL_PREFIX)
+
+export type VaultState = 'uninitialized' | 'locked' | 'unlocked'
+
+export interface EncryptedValue {
+  iv: string
+  data: string
+}
+
+/**
+ * The vault as stored in `chrome.storage.local`. Only the salt and the
+ * ciphertexts are persisted; the derived key lives in
+ * `chrome.storage.session` and is gone once the browser closes.
+ */
+export interface StoredVault {
+  version: 1
+  salt: string
+  iterations: number
+  /**
+   * A known value encrypted with the key, used to check the passphrase.
+   */
+  verifier: EncryptedValue
+  keys: Partial<Record<VaultEntry, EncryptedValue>>
+}
+
+const VAULT_KEY = 'keyVault'
+const ENDPOINTS_KEY = 'customEndpoints'
+export const VAULT_SESSION_KEY = 'keyVaultSessionKey'
+const PBKDF2_ITERATIONS = 310_000
+const VERIFIER = 'leetcode-whisper-vault'
+const MIN_PASSPHRASE_LENGTH = 8
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+
+const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0))
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+const encrypt = async (
+  key: CryptoKey,
+  value: string
+): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    encoder.encode(value)
+  )
+  return { iv: toBase64(iv), data: toBase64(data) }
+}
+
+const decrypt = async (
+  key: CryptoKey,
+  value: EncryptedValue
+): Promise<string> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(value.iv) },
+    key,
+    fromBase64(value.data)
+  )
+  return decoder.decode(data)
+}
+
+const getStoredVault = async () => {
+  const result = await chrome.storage.local.get(VAULT_KEY)
+  return result[VAULT_KEY] as StoredVault | undefined
+}
+
+const getSessionKey = async (): Promise<CryptoKey | null> => {
+  const result = await chrome.storage.session.get(VAULT_SESSION_KEY)
+  const raw = result[VAULT_SESSION_KEY] as string | undefined
+  if (!raw) return null
+  return crypto.subtle.importKey('raw', fromBase64(raw), 'AES-GCM', true, [
+    'encrypt',
+    'decrypt',
+  ])
+}
+
+const setSessionKey = async (key: CryptoKey) => {
+  const raw = await crypto.subtle.exportKey('raw', key)
+  await chrome.storage.session.set({ [VAULT_SESSION_KEY]: toBase64(raw) })
+}
+
+const checkPassphrase = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`
+    )
+  }
+}
+
+/**
+ * Derives the key of a stored vault and checks it against the verifier.
+ *
+ * @throws When the passphrase is wrong.
+ */
+const openVault = async (vault: StoredVault, passphrase: string) => {
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(vault.salt),
+    vault.iterations
+  )
+  try {
+    await decrypt(key, vault.verifier)
+  } catch {
+    throw new Error('Wrong passphrase')
+  }
+  return key
+}
+
+/**
+ * Returns the plaintext keys stored per model before the vault existed,
+ * one per provider.
+ */
+const getLegacyKeys = async () => {
+  const names = VALID_MODELS.map((model) => model.name)
+  const result = await chrome.storage.local.get(names)
+  const keys: Partial<Record<VaultProvider, string>> = {}
+  VALID_MODELS.forEach((model) => {
+    const apiKey = result[model.name] as string | undefined
+    if (apiKey && !keys[model.provider]) keys[model.provider] = apiKey
+  })
+  return { names, keys }
+}
+
+const getStoredEndpoints = async () => {
+  const result = await chrome.storage.local.get(ENDPOINTS_KEY)
+  return (result[ENDPOINTS_KEY] as CustomEndpoint[] | undefined) || []
+}
+
+/**
+ * Encrypts the keys that custom endpoints stored in plain text in earlier
+ * versions into the vault and removes them from the endpoints.
+ */
+const moveEndpointKeys = async (key: CryptoKey, vault: StoredVault) => {
+  const endpoints = await getStoredEndpoints()
+  if (!endpoints.some((endpoint) => endpoint.apiKey)) return
+
+  const keys = { ...vault.keys }
+  for (const endpoint of endpoints) {
+    if (endpoint.apiKey) {
+      keys[toCustomModel(endpoint)] = await encrypt(key, endpoint.apiKey)
+    }
+  }
+  await chrome.storage.local.set({
+    [VAULT_KEY]: { ...vault, keys } as StoredVault,
+    [ENDPOINTS_KEY]: endpoints.map(
+      ({ apiKey: _apiKey, ...endpoint }) => endpoint
+    ),
+  })
+}
+
+/**
+ * Tells whether the vault has been set up and, if so, whether it is unlocked
+ * for this browser session.
+ *
+ * @returns {Promise<VaultState>}
+ */
+export const getVaultState = async (): Promise<VaultState> => {
+  if (!(await getStoredVault())) return 'uninitialized'
+  return (await getSessionKey()) ? 'unlocked' : 'locked'
+}
+
+/**
+ * Sets up the vault with a passphrase and unlocks it. Keys stored in plain
+ * text by earlier versions are encrypted into the vault and removed.
+ *
+ * @param {string} passphrase - The user's master passphrase.
+ * @throws When a vault already exists or the passphrase is too short.
+ */
+export const createVault = async (passphrase: string) => {
+  if (await getStoredVault()) throw new Error('The vault already exists')
+  checkPassphrase(passphrase)
+
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const legacy = await getLegacyKeys()
+
+  const keys: StoredVault['keys'] = {}
+  for (const [provider, apiKey] of Object.entries(legacy.keys)) {
+    keys[provider as VaultProvider] = await encrypt(key, apiKey)
+  }
+
+  const vault: StoredVault = {
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encrypt(key, VERIFIER),
+    keys,
+  }
+  await chrome.storage.local.set({ [VAULT_KEY]: vault })
+  await chrome.storage.local.remove(legacy.names)
+  await moveEndpointKeys(key, vault)
+  await setSessionKey(key)
+}
+
+/**
+ * Unlocks the vault for the rest of the browser session. Endpoint keys
+ * still stored in plain text are moved into it.
+ *
+ * @param {string} passphrase - The user's master passphrase.
+ * @throws When there is no vault or the passphrase is wrong.
+ */
+export const unlockVault = async (passphrase: string) => {
+  const vault = await getStoredVault()
+  if (!vault) throw new Error('Set up a passphrase first')
+  const key = await openVault(vault, passphrase)
+  await moveEndpointKeys(key, vault)
+  await setSessionKey(key)
+}
+
+/**
+ * Forgets the session key. Keys can't be read until the vault is unlocked
+ * again.
+ */
+export const lockVault = async () => {
+  await chrome.storage.session.remove(VAULT_SESSION_KEY)
+}
+
+/**
+ * Re-encrypts every key under a new passphrase.
+ *
+ * @param {string} current - The current passphrase.
+ * @param {string} next - The new passphrase.
+ * @throws When the current passphrase is wrong or the new one is too short.
+ */
+export const rotatePassphrase = async (current: string, next: string) => {
+  const vault = await getStoredVault()
+  if (!vault) throw new Error('Set up a passphrase first')
+  checkPassphrase(next)
+
+  const oldKey = await openVault(vault, current)
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const newKey = await deriveKey(next, salt, PBKDF2_ITERATIONS)
+
+  const keys: StoredVault['keys'] = {}
+  for (const [entry, value] of Object.entries(vault.keys) as [
+    VaultEntry,
+    EncryptedValue,
+  ][]) {
+    keys[entry] = await encrypt(newKey, await decrypt(oldKey, value))
+  }
+
+  await chrome.storage.local.set({
+    [VAULT_KEY]: {
+      version: 1,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encrypt(newKey, VERIFIER),
+      keys,
+    } as StoredVault,
+  })
+  await setSessionKey(newKey)
+}
+
+/**
+ * Deletes the vault and every key in it, for when the passphrase is lost.
+ */
+export const resetVault = async () => {
+  await chrome.storage.local.remove(VAULT_KEY)
+  await lockVault()
+}
+
+/**
+ * Reads the key of a provider or custom endpoint. Before the vault is set
+ * up, keys stored in plain text by earlier versions are still returned.
+ *
+ * @param {VaultEntry} entry - The provider, or the model id of the endpoint.
+ * @returns {Promise<string | undefined>} The key, or `undefined` when there is none or the vault is locked.
+ */
+export const getVaultKey = async (
+  entry: VaultEntry
+): Promise<string | undefined> => {
+  const vault = await getStoredVault()
+  if (!vault) {
+    return isEndpointEntry(entry)
+      ? (await getStoredEndpoints()).find(
+          (endpoint) => toCustomModel(endpoint) === entry
+        )?.apiKey
+      : (await getLegacyKeys()).keys[entry]
+  }
+
+  const key = await getSessionKey()
+  const value = vault.keys[entry]
+  if (!key || !value) return undefined
+  return decrypt(key, value)
+}
+
+/**
+ * Tells whether the vault holds a key for a provider or custom endpoint,
+ * without unlocking it.
+ *
+ * @param {VaultEntry} entry - The provider, or the model id of the endpoint.
+ * @returns {Promise<boolean>}
+ */
+export const hasVaultKey = async (entry: VaultEntry): Promise<boolean> =>
+  !!(await getStoredVault())?.keys[entry]
+
+/**
+ * Encrypts and stores the key of a provider or custom endpoint.
+ *
+ * @param {VaultEntry} entry - The provider, or the model id of the endpoint.
+ * @param {string} apiKey - The API key.
+ * @throws When the vault is not set up or locked.
+ */
+export const setVaultKey = async (entry: VaultEntry, apiKey: string) => {
+  const vault = await getStoredVault()
+  const key = await getSessionKey()
+  if (!vault || !key) throw new Error('Unlock your keys first')
+
+  await chrome.storage.local.set({
+    [VAULT_KEY]: {
+      ...vault,
+      keys: { ...vault.keys, [entry]: await encrypt(key, apiKey) },
+    } as StoredVault,
+  })
+}
+
+/**
+ * Deletes keys from the vault, e.g. those of removed custom endpoints. The
+ * vault does not need to be unlocked for this.
+ *
+ * @param {VaultEntry[]} entries - The providers, or model ids of endpoints.
+ */
+export const removeVaultKeys = async (entries: VaultEntry[]) => {
+  const vault = await getStoredVault()
+  if (!vault || !entries.some((entry) => vault.keys[entry])) return
+
+  const keys = { ...vault.keys }
+  entries.forEach((entry) => delete keys[entry])
+  await chrome.storage.local.set({
+    [VAULT_KEY]: { ...vault, keys } as StoredVault,
+  })
+}
+
+/**
+ * Reads the secrets a backup includes: the vault, still encrypted, and the
+ * keys earlier versions stored in plain text.
+ *
+ * @returns {Promise<BackupSecrets>}
+ */
+export const getVaultBackup = async (): Promise<BackupSecrets> => ({
+  vault: await getStoredVault(),
+  legacyKeys: Object.fromEntries(
+    Object.entries(
+      await chrome.storage.local.get(VALID_MODELS.map((model) => model.name))
+    ).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  ),
+})
+
+/**
+ * Restores the secrets of a backup. A restored vault is locked, as it may
+ * have another passphrase than the current one.
+ *
+ * Merging into an existing vault only adds the archived keys when both
+ * vaults share their salt, i.e. their passphrase. Other keys can't be read
+ * without the archive's passphrase and are skipped with a warning.
+ *
+ * @param {BackupSecrets} secrets - The secrets of the backup.
+ * @param {RestoreMode} mode - Whether current secrets are kept or replaced.
+ * @returns {Promise<string | null>} A warning about skipped keys, if any.
+ */
+export const restoreVaultBackup = async (
+  { vault, legacyKeys }: BackupSecrets,
+  mode: RestoreMode
+): Promise<string | null> => {
+  const current = await getVaultBackup()
+  let warning: string | null = null
+  if (mode === 'replace') {
+    await chrome.storage.local.remove([
+      VAULT_KEY,
+      ...Object.keys(current.legacyKeys),
+    ])
+  }
+
+  if (vault && mode === 'merge' && current.vault) {
+    const isSameKey =
+      vault.salt === current.vault.salt &&
+      vault.iterations === current.vault.iterations
+    const missing = (Object.keys(vault.keys) as VaultEntry[]).filter(
+      (entry) => !current.vault?.keys[entry]
+    )
+    if (isSameKey) {
+      await chrome.storage.local.set({
+        [VAULT_KEY]: {
+          ...current.vault,
+          keys: { ...vault.keys, ...current.vault.keys },
+        } as StoredVault,
+      })
+    } else if (missing.length > 0) {
+      const names = [
+        ...new Set(
+          missing.map((entry) =>
+            isEndpointEntry(entry) ? 'custom endpoints' : PROVIDERS[entry]
+          )
+        ),
+      ].join(', ')
+      warning = `The API keys for ${names} were not restored: the backup encrypted them with another passphrase. Restore with "Replace" to use the keys of the backup.`
+    }
+  } else if (vault) {
+    await chrome.storage.local.set({ [VAULT_KEY]: vault })
+    await lockVault()
+  } else if (mode === 'replace') {
+    await lockVault()
+  }
+
+  await chrome.storage.local.set(
+    mode === 'merge' ? { ...legacyKeys, ...current.legacyKeys } : legacyKeys
+  )
+  return warning
+}
@@ -0,0 +1,229 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  GENERATE_PORT,
+  GeneratePortEvent,
+  GeneratePortRequest,
+  ModelStatus,
+} from '@/interface/messages'
+import { createMessageBus, extensionPagesOnly } from '@/lib/messageBus'
+import {
+  generatePortEventSchema,
+  generatePortRequestSchema,
+} from '@/schema/messages'
+import { createFakeRuntime } from '@/test/fakeRuntime'
+
+const STATUS: ModelStatus = { model: 'openai_4o', hasKey: true, locked: false }
+
+const setup = () => {
+  const runtime = createFakeRuntime()
+  return {
+    runtime,
+    background: createMessageBus(runtime.context()),
+    content: createMessageBus(runtime.context()),
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('request', () => {
+  it('resolves with the response of the handler', async () => {
+    const { background, content } = setup()
+    background.handle('getModelStatus', async () => STATUS)
+
+    await expect(content.request('getModelStatus', {})).resolves.toEqual(STATUS)
+  })
+
+  it('passes the validated payload to the handler', async () => {
+    const { background, content } = setup()
+    const handler = vi.fn(() => [])
+    background.handle('takePendingResults', handler)
+
+    await content.request('takePendingResults', { problemName: 'two-sum' })
+    expect(handler).toHaveBeenCalledWith({ problemName: 'two-sum' }, {})
+  })
+
+  it('rejects with the error the handler threw', async () => {
+    const { background, content } = setup()
+    background.handle('getModelStatus', () => {
+      throw new Error('Storage is unavailable')
+    })
+
+    await expect(content.request('getModelStatus', {})).rejects.toThrow(
+      'Storage is unavailable'
+    )
+  })
+
+  it('rejects an invalid payload before sending it', async () => {
+    const { runtime, content } = setup()
+
+    await expect(
+      content.request('takePendingResults', { problemName: 1 } as any)
+    ).rejects.toThrow()
+    expect(runtime.sent).toHaveLength(0)
+  })
+
+  it('rejects a response that fails its schema', async () => {
+    const { background, content } = setup()
+    background.handle('getModelStatus', () => ({ hasKey: 'yes' }) as any)
+
+    await expect(content.request('getModelStatus', {})).rejects.toThrow()
+  })
+
+  it('rejects when no context handles the action', async () => {
+    const { content } = setup()
+
+    await expect(content.request('getModelStatus', {})).rejects.toThrow(
+      'Receiving end does not exist'
+    )
+  })
+
+  it('stops answering once the handler is removed', async () => {
+    const { background, content } = setup()
+    const remove = background.handle('getModelStatus', () => STATUS)
+    remove()
+
+    await expect(content.request('getModelStatus', {})).rejects.toThrow()
+  })
+})
+
+describe('extensionPagesOnly', () => {
+  const BASE_URL = 'chrome-extension://abc/'
+
+  const setupSender = (url: string) => {
+    const runtime = createFakeRuntime()
+    const background = createMessageBus(runtime.context())
+    const sender = createMessageBus(runtime.context({ url }))
+    background.handle(
+      'getModelStatus',
+      extensionPagesOnly(() => STATUS, BASE_URL)
+    )
+    return sender
+  }
+
+  it('answers the pages of the extension', async () => {
+    const history = setupSender(`${BASE_URL}history.html`)
+
+    await expect(history.request('getModelStatus', {})).resolves.toEqual(STATUS)
+  })
+
+  it('rejects content scripts', async () => {
+    const content = setupSender('https://leetcode.com/problems/two-sum/')
+
+    await expect(content.request('getModelStatus', {})).rejects.toThrow(
+      'Only the pages of the extension'
+    )
+  })
+
+  it('rejects senders without a URL', async () => {
+    const unknown = setupSender('')
+
+    await expect(unknown.request('getModelStatus', {})).rejects.toThrow()
+  })
+})
+
+describe('events', () => {
+  it('reach the listeners of the other contexts', async () => {
+    const { background, content } = setup()
+    const listener = vi.fn()
+    content.on('settingsChanged', listener)
+
+    await background.emit('settingsChanged', { keys: ['selectedModel'] })
+    expect(listener).toHaveBeenCalledWith({ keys: ['selectedModel'] })
+  })
+
+  it('resolve even when nobody listens', async () => {
+    const { background } = setup()
+
+    await expect(
+      background.emit('settingsChanged', { keys: [] })
+    ).resolves.toMatchObject({ kind: 'event', event: 'settingsChanged' })
+  })
+
+  it('stop once the listener is removed', async () => {
+    const { background, content } = setup()
+    const listener = vi.fn()
+    const remove = content.on('settingsChanged', listener)
+    remove()
+
+    await background.emit('settingsChanged', { keys: [] })
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
+
+describe('ports', () => {
+  const connect = () => {
+    const { background, content } = setup()
+    const received: GeneratePortRequest[] = []
+    const onDisconnect = vi.fn()
+    background.onConnect<GeneratePortEvent, GeneratePortRequest>(
+      GENERATE_PORT,
+      generatePortRequestSchema,
+      (port) => {
+        port.onDisconnect(onDisconnect)
+        port.onMessage((message) => {
+          received.push(message)
+          port.post({
+            type: 'attempt',
+            requestId: message.requestId,
+            model: 'openai_4o',
+          })
+        })
+      }
+    )
+    const port = content.connect<GeneratePortRequest, GeneratePortEvent>(
+      GENERATE_PORT,
+      generatePortEventSchema
+    )
+    return { port, received, onDisconnect }
+  }
+
+  it('carry messages both ways', async () => {
+    const { port, received } = connect()
+    const events: GeneratePortEvent[] = []
+    port.onMessage((event) => events.push(event))
+
+    port.post({ type: 'abort', requestId: 'r1' })
+    await flush()
+
+    expect(received).toEqual([{ type: 'abort', requestId: 'r1' }])
+    expect(events).toEqual([
+      { type: 'attempt', requestId: 'r1', model: 'openai_4o' },
+    ])
+  })
+
+  it('drop messages that fail the schema', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    const { port, received } = connect()
+
+    port.post({ type: 'unknown' } as any)
+    await flush()
+
+    expect(received).toEqual([])
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('accept unfinished values in streamed partials', () => {
+    const parsed = generatePortEventSchema.safeParse({
+      type: 'partial',
+      requestId: 'r1',
+      partial: {
+        feedback: 'Try a hash map',
+        hints: ['one', 'two', 'three'],
+        programmingLanguage: 'pyth',
+      },
+    })
+
+    expect(parsed.success).toBe(true)
+  })
+
+  it('tell the other end when they disconnect', async () => {
+    const { port, onDisconnect } = connect()
+    await flush()
+
+    port.disconnect()
+    await flush()
+
+    expect(onDisconnect).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,294 @@
+import { z } from 'zod'
+import {
+  busMessageSchema,
+  busResponseSchema,
+  eventSchemas,
+  requestSchemas,
+} from '@/schema/messages'
+
+export type RequestAction = keyof typeof requestSchemas
+export type RequestPayload<A extends RequestAction> = z.infer<
+  (typeof requestSchemas)[A]['payload']
+>
+export type RequestResponse<A extends RequestAction> = z.infer<
+  (typeof requestSchemas)[A]['response']
+>
+
+export type BusEvent = keyof typeof eventSchemas
+export type EventPayload<E extends BusEvent> = z.infer<(typeof eventSchemas)[E]>
+
+interface EventLike<T extends (...args: any[]) => any> {
+  addListener(callback: T): void
+  removeListener(callback: T): void
+}
+
+/**
+ * The part of a `chrome.runtime.Port` the bus uses.
+ */
+export interface PortLike {
+  name: string
+  postMessage(message: unknown): void
+  disconnect(): void
+  onMessage: EventLike<(message: unknown) => void>
+  onDisconnect: EventLike<() => void>
+}
+
+/**
+ * The part of a `chrome.runtime.MessageSender` handlers can check.
+ */
+export interface MessageSenderLike {
+  tab?: unknown
+  url?: string
+}
+
+type MessageListener = (
+  message: unknown,
+  sender: MessageSenderLike,
+  sendResponse: (response?: unknown) => void
+) => boolean | void
+
+/**
+ * The part of `chrome.runtime` the bus uses, so tests and tools can pass a
+ * fake one (see `src/test/fakeRuntime.ts`).
+ */
+export interface RuntimeLike {
+  sendMessage(message: unknown): Promise<unknown>
+  onMessage: EventLike<MessageListener>
+  connect(extensionId: undefined, connectInfo: { name: string }): PortLike
+  onConnect: EventLike<(port: PortLike) => void>
+}
+
+/**
+ * A runtime whose requests go to the content script of a tab, e.g. for the
+ * popup to ask about the page it was opened on.
+ *
+ * @param {number} tabId - The tab.
+ * @returns {RuntimeLike}
+ */
+export const tabRuntime = (tabId: number): RuntimeLike => {
+  const runtime = chrome.runtime as unknown as RuntimeLike
+  return {
+    sendMessage: (message) => chrome.tabs.sendMessage(tabId, message),
+    onMessage: runtime.onMessage,
+    connect: (extensionId, connectInfo) =>
+      runtime.connect(extensionId, connectInfo),
+    onConnect: runtime.onConnect,
+  }
+}
+
+/**
+ * A port whose incoming messages are validated against a schema.
+ */
+export interface TypedPort<Out, In> {
+  post(message: Out): void
+  onMessage(listener: (message: In) => void): void
+  onDisconnect(listener: () => void): void
+  disconnect(): void
+}
+
+/**
+ * Wraps a port so that messages failing the schema are dropped with a
+ * warning instead of reaching the listeners.
+ *
+ * @param {PortLike} port - The raw port.
+ * @param {z.ZodType} incoming - Schema of the messages received on the port.
+ * @returns {TypedPort}
+ */
+export const typedPort = <Out, In>(
+  port: PortLike,
+  incoming: z.ZodType<In>
+): TypedPort<Out, In> => ({
+  post: (message) => port.postMessage(message),
+  onMessage: (listener) =>
+    port.onMessage.addListener((message) => {
+      const parsed = incoming.safeParse(message)
+      if (parsed.success) listener(parsed.data)
+      else console.warn(`Invalid message on port ${port.name}`, parsed.error)
+    }),
+  onDisconnect: (listener) => port.onDisconnect.addListener(listener),
+  disconnect: () => port.disconnect(),
+})
+
+/**
+ * Creates the typed request/response and event bus shared by the content
+ * script, the popup and the background.
+ *
+ * Requests go to the handler registered for their action (in the background)
+ * and resolve with its validated response. Events reach every other context
+ * that listens to them; the background relays them to the tabs.
+ *
+ * @param {RuntimeLike} [runtime] - Defaults to `chrome.runtime`.
+ */
+export const createMessageBus = (
+  runtime: RuntimeLike = chrome.runtime as unknown as RuntimeLike
+) => {
+  return {
+    /**
+     * Sends a request and waits for its response.
+     *
+     * @throws When the payload or the response fail validation, or the handler threw.
+     */
+    request: async <A extends RequestAction>(
+      action: A,
+      payload: RequestPayload<A>
+    ): Promise<RequestResponse<A>> => {
+      const schemas = requestSchemas[action]
+      const response = busResponseSchema.parse(
+        await runtime.sendMessage({
+          kind: 'request',
+          action,
+          payload: schemas.payload.parse(payload),
+        })
+      )
+      if (!response.ok) throw new Error(response.error)
+      return schemas.response.parse(response.data) as RequestResponse<A>
+    },
+
+    /**
+     * Answers the requests of an action.
+     *
+     * @returns A function that removes the handler.
+     */
+    handle: <A extends RequestAction>(
+      action: A,
+      handler: (
+        payload: RequestPayload<A>,
+        sender: MessageSenderLike
+      ) => Promise<RequestResponse<A>> | RequestResponse<A>
+    ) => {
+      const listener: MessageListener = (message, sender, sendResponse) => {
+        const envelope = busMessageSchema.safeParse(message)
+        if (
+          !envelope.success ||
+          envelope.data.kind !== 'request' ||
+          envelope.data.action !== action
+        ) {
+          return false
+        }
+
+        const payload = requestSchemas[action].payload.safeParse(
+          envelope.data.payload
+        )
+        if (!payload.success) {
+          sendResponse({ ok: false, error: payload.error.message })
+          return false
+        }
+
+        Promise.resolve()
+          .then(() => handler(payload.data as RequestPayload<A>, sender))
+          .then(
+            (data) => sendResponse({ ok: true, data }),
+            (error) =>
+              sendResponse({
+                ok: false,
+                error: String(error?.message || error),
+              })
+          )
+        return true
+      }
+      runtime.onMessage.addListener(listener)
+      return () => runtime.onMessage.removeListener(listener)
+    },
+
+    /**
+     * Broadcasts an event to the other extension contexts.
+     */
+    emit: async <E extends BusEvent>(event: E, payload: EventPayload<E>) => {
+      const message = {
+        kind: 'event',
+        event,
+        payload: eventSchemas[event].parse(payload),
+      }
+      // Rejects when no other context is listening, which is fine.
+      await runtime.sendMessage(message).catch(() => undefined)
+      return message
+    },
+
+    /**
+     * Listens to an event.
+     *
+     * @returns A function that removes the listener.
+     */
+    on: <E extends BusEvent>(
+      event: E,
+      listener: (payload: EventPayload<E>) => void
+    ) => {
+      const onMessage: MessageListener = (message) => {
+        const envelope = busMessageSchema.safeParse(message)
+        if (
+          !envelope.success ||
+          envelope.data.kind !== 'event' ||
+          envelope.data.event !== event
+        ) {
+          return false
+        }
+        const payload = eventSchemas[event].safeParse(envelope.data.payload)
+        if (payload.success) listener(payload.data as EventPayload<E>)
+        return false
+      }
+      runtime.onMessage.addListener(onMessage)
+      return () => runtime.onMessage.removeListener(onMessage)
+    },
+
+    /**
+     * Opens a port to the background.
+     */
+    connect: <Out, In>(name: string, incoming: z.ZodType<In>) =>
+      typedPort<Out, In>(runtime.connect(undefined, { name }), incoming),
+
+    /**
+     * Accepts the ports opened with `connect`.
+     *
+     * @returns A function that removes the listener.
+     */
+    onConnect: <Out, In>(
+      name: string,
+      incoming: z.ZodType<In>,
+      listener: (port: TypedPort<Out, In>) => void
+    ) => {
+      const onConnect = (port: PortLike) => {
+        if (port.name === name) listener(typedPort<Out, In>(port, incoming))
+      }
+      runtime.onConnect.addListener(onConnect)
+      return () => runtime.onConnect.removeListener(onConnect)
+    },
+  }
+}
+
+export type MessageBus = ReturnType<typeof createMessageBus>
+
+/**
+ * Tells whether a message comes from one of the extension's own pages rather
+ * than from a content script. Extension pages opened in a tab have a `tab`
+ * too, so the URL decides.
+ *
+ * @param {MessageSenderLike} sender - The sender of the message.
+ * @param {string} [baseUrl] - The root of the extension's pages, defaults to `chrome.runtime.getURL('')`.
+ * @returns {boolean}
+ */
+export const isExtensionPage = (
+  sender: MessageSenderLike,
+  baseUrl: string = chrome.runtime.getURL('')
+) => !!sender.url?.startsWith(baseUrl)
+
+/**
+ * Wraps a handler so that it only answers the extension's own pages, e.g. the
+ * popup and the history page. Content scripts run on every site, so bulk,
+ * destructive and secret-revealing actions must not be reachable from them.
+ * Extension pages opened in a tab have a `tab` too, so the URL decides.
+ *
+ * @param handler - The handler to protect.
+ * @param {string} [baseUrl] - The root of the extension's pages, defaults to `chrome.runtime.getURL('')`.
+ * @returns The handler, throwing for other senders.
+ */
+export const extensionPagesOnly =
+  <P, R>(
+    handler: (payload: P) => R,
+    baseUrl: string = chrome.runtime.getURL('')
+  ) =>
+  (payload: P, sender: MessageSenderLike): R => {
+    if (!isExtensionPage(sender, baseUrl)) {
+      throw new Error('Only the pages of the extension can do this')
+    }
+    return handler(payload)
+  }
@@ -0,0 +1,88 @@
+import { APICallError, RetryError } from 'ai'
+import { describe, expect, it } from 'vitest'
+import { classifyProviderError } from '@/lib/providerErrors'
+import { InvalidModelOutputError } from '@/modals/utils'
+
+const apiError = (statusCode?: number, responseBody?: string) =>
+  new APICallError({
+    message: `Request failed with ${statusCode}`,
+    url: 'https://api.openai.com/v1/chat/completions',
+    requestBodyValues: {},
+    statusCode,
+    responseBody,
+  })
+
+describe('classifyProviderError', () => {
+  it.each([
+    [429, 'Rate limit reached', 'rate_limit', true],
+    [429, '{"error":{"code":"insufficient_quota"}}', 'quota', false],
+    [400, 'Your credit balance is too low', 'quota', false],
+    [400, 'Invalid request', 'bad_request', false],
+    [401, '', 'auth', false],
+    [403, '', 'auth', false],
+    [404, '', 'not_found', false],
+    [503, '', 'server', true],
+  ])(
+    'classifies a %i answering "%s" as %s',
+    (status, body, kind, retryable) => {
+      expect(classifyProviderError(apiError(status, body))).toMatchObject({
+        kind,
+        status,
+        retryable,
+      })
+    }
+  )
+
+  it('treats a call without an answer as a network failure', () => {
+    expect(classifyProviderError(apiError())).toMatchObject({
+      kind: 'network',
+      retryable: true,
+    })
+  })
+
+  it('classifies the last error of exhausted retries', () => {
+    const error = new RetryError({
+      message: 'Failed after 3 attempts',
+      reason: 'maxRetriesExceeded',
+      errors: [apiError(500), apiError(429)],
+    })
+
+    expect(classifyProviderError(error)).toMatchObject({
+      kind: 'rate_limit',
+      status: 429,
+    })
+  })
+
+  it('recognizes a cancelled request', () => {
+    const error = new DOMException('The user aborted a request.', 'AbortError')
+
+    expect(classifyProviderError(error)).toMatchObject({
+      kind: 'aborted',
+      retryable: false,
+    })
+  })
+
+  it('recognizes answers that violate the output schema', () => {
+    const error = new InvalidModelOutputError(new Error('Invalid JSON'))
+
+    expect(classifyProviderError(error)).toEqual({
+      kind: 'invalid_output',
+      retryable: false,
+      message: error.message,
+    })
+  })
+
+  it('recognizes a failed fetch', () => {
+    expect(
+      classifyProviderError(new TypeError('Failed to fetch'))
+    ).toMatchObject({ kind: 'network', retryable: true })
+  })
+
+  it('keeps the message of anything else', () => {
+    expect(classifyProviderError('Something broke')).toEqual({
+      kind: 'unknown',
+      retryable: false,
+      message: 'Something broke',
+    })
+  })
+})
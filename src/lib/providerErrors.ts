@@ -0,0 +1,102 @@
+import {
+  APICallError,
+  JSONParseError,
+  NoObjectGeneratedError,
+  RetryError,
+  TypeValidationError,
+} from 'ai'
+import { InvalidModelOutputError } from '@/modals/utils'
+
+/**
+ * Kinds of failures a provider call can end with.
+ */
+export type ProviderErrorKind =
+  | 'aborted'
+  | 'rate_limit'
+  | 'quota'
+  | 'server'
+  | 'network'
+  | 'auth'
+  | 'not_found'
+  | 'bad_request'
+  | 'invalid_output'
+  | 'unknown'
+
+export interface ProviderErrorInfo {
+  kind: ProviderErrorKind
+  /**
+   * HTTP status code, when the provider answered.
+   */
+  status?: number
+  /**
+   * Whether retrying the same model later may succeed.
+   */
+  retryable: boolean
+  message: string
+}
+
+const QUOTA_PATTERN = /insufficient_quota|quota|billing|credit balance/i
+
+/**
+ * Classifies an error thrown by a provider call so callers can decide whether
+ * to retry, fall back to another model or give up.
+ *
+ * @param {unknown} error - The error returned by a modal.
+ * @returns {ProviderErrorInfo}
+ */
+export const classifyProviderError = (error: unknown): ProviderErrorInfo => {
+  if (RetryError.isInstance(error)) {
+    return classifyProviderError(error.lastError)
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { kind: 'aborted', retryable: false, message }
+  }
+
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode
+    const body = error.responseBody || ''
+
+    if (status === 429 && QUOTA_PATTERN.test(body)) {
+      return { kind: 'quota', status, retryable: false, message }
+    }
+    if (status === 429) {
+      return { kind: 'rate_limit', status, retryable: true, message }
+    }
+    if (status === 401 || status === 403) {
+      return { kind: 'auth', status, retryable: false, message }
+    }
+    if (status === 404) {
+      return { kind: 'not_found', status, retryable: false, message }
+    }
+    if (status !== undefined && status >= 500) {
+      return { kind: 'server', status, retryable: true, message }
+    }
+    if (status === undefined) {
+      return { kind: 'network', retryable: true, message }
+    }
+    return {
+      kind: QUOTA_PATTERN.test(body) ? 'quota' : 'bad_request',
+      status,
+      retryable: false,
+      message,
+    }
+  }
+
+  if (
+    error instanceof InvalidModelOutputError ||
+    NoObjectGeneratedError.isInstance(error) ||
+    TypeValidationError.isInstance(error) ||
+    JSONParseError.isInstance(error)
+  ) {
+    return { kind: 'invalid_output', retryable: false, message }
+  }
+
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return { kind: 'network', retryable: true, message }
+  }
+
+  return { kind: 'unknown', retryable: false, message }
+}
@@ -1,16 +1,25 @@
 import { ModalInterface } from '@/interface/ModalInterface'
-import { ValidModel } from '@/constants/valid_modals'
+import { CatalogModel } from '@/interface/catalog'
 
-import { OpenAI_3_5_turbo } from '@/modals/modal/OpenAI_3_5_turbo'
-import { GeminiAI_2_0_flash } from '@/modals/modal/GeminiAI_1_5_pro'
-import { OpenAi_4o } from './modal/OpenAI_40'
+import { OpenAIModal } from '@/modals/modal/OpenAI'
+import { GeminiAIModal } from '@/modals/modal/GeminiAI'
+import { AnthropicModal } from './modal/Anthropic'
+import { OpenAICompatible } from './modal/OpenAI_compatible'
 
 /**
- * This object contains all the modals that are available in the extension.
- * @type {Record<ValidModel, ModalInterface>}
+ * Creates the modal that talks to the provider of a catalog model.
+ * @param {CatalogModel} model - The catalog entry to create a modal for.
+ * @returns {ModalInterface}
  */
-export const modals: Record<ValidModel, ModalInterface> = {
-  'openai_3.5_turbo': new OpenAI_3_5_turbo(),
-  openai_4o: new OpenAi_4o(),
-  'gemini_2.0_flash': new GeminiAI_2_0_flash(),
+export const createModal = (model: CatalogModel): ModalInterface => {
+  switch (model.provider) {
+    case 'openai':
+      return new OpenAIModal(model)
+    case 'google':
+      return new GeminiAIModal(model)
+    case 'anthropic':
+      return new AnthropicModal(model)
+    case 'custom':
+      return new OpenAICompatible(model)
+  }
 }
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { CatalogModel } from '@/interface/catalog'
+import { classifyProviderError } from '@/lib/providerErrors'
+import { AnthropicModal } from '@/modals/modal/Anthropic'
+
+const BASE_URL = 'https://anthropic.mock/v1'
+
+const MODEL: CatalogModel = {
+  name: 'anthropic_claude_3.5_sonnet',
+  model: 'claude-3-5-sonnet-latest',
+  provider: 'anthropic',
+  display: 'Claude 3.5 Sonnet',
+  capabilities: {
+    contextWindow: 200_000,
+    structuredOutput: true,
+    vision: true,
+  },
+  source: 'manifest',
+}
+
+/**
+ * Answers requests to the Messages API of `BASE_URL` with `status` and
+ * `body`, and records them.
+ */
+const mockMessagesApi = (status: number, body: unknown) => {
+  const requests: { headers: Headers; body: any }[] = []
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (url: string, init: RequestInit) => {
+      if (url !== `${BASE_URL}/messages`) {
+        throw new TypeError(`Failed to fetch ${url}`)
+      }
+      requests.push({
+        headers: new Headers(init.headers),
+        body: JSON.parse(String(init.body)),
+      })
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json' },
+      })
+    })
+  )
+  return requests
+}
+
+const apiError = (type: string, message: string) => ({
+  type: 'error',
+  error: { type, message },
+})
+
+const createModal = () => {
+  const modal = new AnthropicModal(MODEL, BASE_URL)
+  modal.init('sk-ant-test')
+  return modal
+}
+
+const generate = () =>
+  createModal().generateResponse({
+    prompt: 'How do I start?',
+    systemPrompt: 'You are a tutor.',
+    messages: [],
+    extractedCode: 'def two_sum(): pass',
+  })
+
+describe('AnthropicModal', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('requests the answer as a forced tool call', async () => {
+    const requests = mockMessagesApi(200, {
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      model: MODEL.model,
+      content: [
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'json',
+          input: {
+            feedback: 'Store what you have seen.',
+            hints: ['Use a map'],
+            programmingLanguage: 'python',
+          },
+        },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 120, output_tokens: 30 },
+    })
+
+    await expect(generate()).resolves.toEqual({
+      error: null,
+      success: {
+        feedback: 'Store what you have seen.',
+        hints: ['Use a map'],
+        programmingLanguage: 'python',
+      },
+      usage: { promptTokens: 120, completionTokens: 30, totalTokens: 150 },
+    })
+
+    const [{ headers, body }] = requests
+    expect(headers.get('x-api-key')).toBe('sk-ant-test')
+    expect(headers.get('anthropic-dangerous-direct-browser-access')).toBe(
+      'true'
+    )
+    expect(body).toMatchObject({
+      model: MODEL.model,
+      system: [
+        { type: 'text', text: 'You are a tutor.' },
+        {
+          type: 'text',
+          text: expect.stringContaining('def two_sum(): pass'),
+        },
+      ],
+      tool_choice: { type: 'tool', name: 'json' },
+    })
+  })
+
+  it.each([
+    [401, apiError('authentication_error', 'invalid x-api-key'), 'auth'],
+    [404, apiError('not_found_error', 'model: claude-9'), 'not_found'],
+    [
+      400,
+      apiError(
+        'invalid_request_error',
+        'Your credit balance is too low to access the Anthropic API.'
+      ),
+      'quota',
+    ],
+  ])('maps a %i of the API to %s', async (status, body, kind) => {
+    mockMessagesApi(status, body)
+
+    const { error, success } = await generate()
+    expect(success).toBe(null)
+    expect(classifyProviderError(error)).toMatchObject({
+      kind,
+      status,
+      retryable: false,
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import {
+  GenerateResponseParamsType,
+  GenerateResponseReturnType,
+  GenerateResponseStreamType,
+  ModalInterface,
+  SummarizeParamsType,
+  SummarizeReturnType,
+} from '../../interface/ModalInterface'
+import { createAnthropic } from '@ai-sdk/anthropic'
+import {
+  generateObjectResponce,
+  generateSummaryResponce,
+  pingModel,
+  streamObjectResponce,
+} from '../utils'
+import { CatalogModel } from '@/interface/catalog'
+
+/**
+ * Modal for Anthropic's Claude models through the Messages API.
+ *
+ * Claude has no JSON mode, so `outputSchema` is requested as a forced tool
+ * call. The `baseURL` can be overridden to point the modal at a mock server.
+ */
+export class AnthropicModal implements ModalInterface {
+  name: string
+  private apiKey: string = ''
+
+  constructor(
+    private model: CatalogModel,
+    private baseURL?: string
+  ) {
+    this.name = model.name
+  }
+
+  init(apiKey: string) {
+    this.apiKey = apiKey
+  }
+
+  private createModel() {
+    const anthropic = createAnthropic({
+      apiKey: this.apiKey,
+      baseURL: this.baseURL,
+      headers: {
+        // Required by the Messages API for requests made from a browser.
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+    })
+
+    return anthropic(this.model.model)
+  }
+
+  async generateResponse(
+    props: GenerateResponseParamsType
+  ): GenerateResponseReturnType {
+    try {
+      let data = await generateObjectResponce({
+        model: this.createModel(),
+        messages: props.messages,
+        systemPrompt: props.systemPrompt,
+        prompt: props.prompt,
+        extractedCode: props.extractedCode,
+        abortSignal: props.abortSignal,
+        schema: props.schema,
+        mode: 'tool',
+      })
+
+      return {
+        error: null,
+        success: data.object,
+        usage: data.usage,
+      }
+    } catch (error: any) {
+      return { error, success: null }
+    }
+  }
+
+  async *streamResponse(
+    props: GenerateResponseParamsType
+  ): GenerateResponseStreamType {
+    try {
+      const data = yield* streamObjectResponce({
+        model: this.createModel(),
+        messages: props.messages,
+        systemPrompt: props.systemPrompt,
+        prompt: props.prompt,
+        extractedCode: props.extractedCode,
+        abortSignal: props.abortSignal,
+        schema: props.schema,
+        mode: 'tool',
+      })
+
+      return {
+        error: null,
+        success: data.object,
+        usage: data.usage,
+      }
+    } catch (error: any) {
+      return { error, success: null }
+    }
+  }
+
+  async summarize(props: SummarizeParamsType): SummarizeReturnType {
+    try {
+      const data = await generateSummaryResponce({
+        model: this.createModel(),
+        messages: props.messages,
+        previousSummary: props.previousSummary,
+        abortSignal: props.abortSignal,
+      })
+
+      return {
+        error: null,
+        success: data.text,
+        usage: data.usage,
+      }
+    } catch (error: any) {
+      return { error, success: null }
+    }
+  }
+
+  async testConnection(abortSignal?: AbortSignal) {
+    try {
+      await pingModel(this.createModel(), abortSignal)
+      return { error: null, success: true }
+    } catch (error: any) {
+      return { error, success: false }
+    }
+  }
+}
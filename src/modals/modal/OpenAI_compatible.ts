@@ -0,0 +1,124 @@
+import {
+  GenerateResponseParamsType,
+  GenerateResponseReturnType,
+  GenerateResponseStreamType,
+  ModalInterface,
+  SummarizeParamsType,
+  SummarizeReturnType,
+} from '../../interface/ModalInterface'
+import { createOpenAI } from '@ai-sdk/openai'
+import {
+  generateObjectResponce,
+  generateSummaryResponce,
+  pingModel,
+  streamObjectResponce,
+} from '../utils'
+import { CatalogModel } from '@/interface/catalog'
+
+/**
+ * Modal for any OpenAI-compatible server (Ollama, LM Studio, vLLM, ...).
+ *
+ * Local models rarely support tool calling, so unless the endpoint's
+ * capabilities say otherwise the output schema is requested in JSON mode.
+ */
+export class OpenAICompatible implements ModalInterface {
+  name: string
+  private apiKey: string = ''
+
+  constructor(private model: CatalogModel) {
+    this.name = model.name
+  }
+
+  init(apiKey?: string) {
+    this.apiKey = apiKey || this.model.endpoint?.apiKey || ''
+  }
+
+  private createModel() {
+    const openai = createOpenAI({
+      compatibility: 'compatible',
+      baseURL: this.model.endpoint?.baseURL,
+      // The SDK refuses to send requests without a key, local servers ignore it.
+      apiKey: this.apiKey || 'not-needed',
+    })
+
+    return openai(this.model.model)
+  }
+
+  async generateResponse(
+    props: GenerateResponseParamsType
+  ): GenerateResponseReturnType {
+    try {
+      let data = await generateObjectResponce({
+        model: this.createModel(),
+        messages: props.messages,
+        systemPrompt: props.systemPrompt,
+        prompt: props.prompt,
+        extractedCode: props.extractedCode,
+        abortSignal: props.abortSignal,
+        schema: props.schema,
+        mode: this.model.capabilities.structuredOutput ? 'auto' : 'json',
+      })
+
+      return {
+        error: null,
+        success: data.object,
+        usage: data.usage,
+      }
+    } catch (error: any) {
+      return { error, success: null }
+    }
+  }
+
+  async *streamResponse(
+    props: GenerateResponseParamsType
+  ): GenerateResponseStreamType {
+    try {
+      const data = yield* streamObjectResponce({
+        model: this.createModel(),
+        messages: props.messages,
+        systemPrompt: props.systemPrompt,
+        prompt: props.prompt,
+        extractedCode: props.extractedCode,
+        abortSignal: props.abortSignal,
+        schema: props.schema,
+        mode: this.model.capabilities.structuredOutput ? 'auto' : 'json',
+      })
+
+      return {
+        error: null,
+        success: data.object,
+        usage: data.usage,
+      }
+    } catch (error: any) {
+      return { error, success: null }
+    }
+  }
+
+  async summarize(props: SummarizeParamsType): SummarizeReturnType {
+    try {
+      const data = await generateSummaryResponce({
+        model: this.createModel(),
+        messages: props.messages,
+        previousSummary: props.previousSummary,
+        abortSignal: props.abortSignal,
+      })
+
+      return {
+        error: null,
+        success: data.text,
+        usage: data.usage,
+      }
+    } catch (error: any) {
+      return { error, success: null }
+    }
+  }
+
+  async testConnection(abortSignal?: AbortSignal) {
+    try {
+      await pingModel(this.createModel(), abortSignal)
+      return { error: null, success: true }
+    } catch (error: any) {
+      return { error, success: false }
+    }
+  }
+}
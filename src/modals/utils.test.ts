@@ -0,0 +1,100 @@
+import { APICallError } from 'ai'
+import { MockLanguageModelV1 } from 'ai/test'
+import { describe, expect, it, vi } from 'vitest'
+import { generateObjectResponce, InvalidModelOutputError } from '@/modals/utils'
+
+/**
+ * Creates a model that answers each call with the next of `answers`, as JSON
+ * text.
+ */
+const createModel = (...answers: string[]) => {
+  const doGenerate = vi.fn(async () => ({
+    rawCall: { rawPrompt: null, rawSettings: {} },
+    finishReason: 'stop' as const,
+    usage: { promptTokens: 10, completionTokens: 5 },
+    text: answers[doGenerate.mock.calls.length - 1],
+  }))
+  return {
+    doGenerate,
+    model: new MockLanguageModelV1({
+      defaultObjectGenerationMode: 'json',
+      doGenerate,
+    }),
+  }
+}
+
+const generate = (model: MockLanguageModelV1) =>
+  generateObjectResponce({
+    model,
+    messages: [],
+    systemPrompt: 'You are a tutor.',
+    prompt: 'How do I start?',
+  })
+
+describe('generateObjectResponce', () => {
+  it('returns a valid answer as is', async () => {
+    const { model } = createModel('{"feedback":"Use a hash map."}')
+
+    await expect(generate(model)).resolves.toMatchObject({
+      object: { feedback: 'Use a hash map.' },
+      usage: { promptTokens: 10, completionTokens: 5 },
+    })
+  })
+
+  it('repairs an answer without asking again', async () => {
+    const { model, doGenerate } = createModel(
+      JSON.stringify({
+        feedback: 'Almost there.',
+        hints: ['One', 'Two', 'Three'],
+        snippet: null,
+        programmingLanguage: 'py',
+      })
+    )
+
+    await expect(generate(model)).resolves.toEqual({
+      object: {
+        feedback: 'Almost there.',
+        hints: ['One', 'Two'],
+        programmingLanguage: 'python',
+      },
+    })
+    expect(doGenerate).toHaveBeenCalledOnce()
+  })
+
+  it('asks again when the answer cannot be repaired', async () => {
+    const { model, doGenerate } = createModel(
+      '{"hints":["Think about sorting."]}',
+      '{"feedback":"Sort the array first."}'
+    )
+
+    await expect(generate(model)).resolves.toMatchObject({
+      object: { feedback: 'Sort the array first.' },
+    })
+    expect(doGenerate).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up when the second answer is invalid too', async () => {
+    const { model } = createModel('not json', '{"hints":[]}')
+
+    await expect(generate(model)).rejects.toBeInstanceOf(
+      InvalidModelOutputError
+    )
+  })
+
+  it('rethrows failures of the provider', async () => {
+    const error = new APICallError({
+      message: 'Unauthorized',
+      url: 'https://api.openai.com/v1/chat/completions',
+      requestBodyValues: {},
+      statusCode: 401,
+    })
+    const model = new MockLanguageModelV1({
+      defaultObjectGenerationMode: 'json',
+      doGenerate: async () => {
+        throw error
+      },
+    })
+
+    await expect(generate(model)).rejects.toBe(error)
+  })
+})
@@ -1,52 +1,371 @@
 import { ChatHistoryParsed } from '@/interface/chatHistory'
-import { outputSchema } from '@/schema/modeOutput'
-import { generateObject, GenerateObjectResult, LanguageModelV1 } from 'ai'
+import { SUMMARY_PROMPT } from '@/constants/prompt'
+import {
+  OutputSchema,
+  outputSchema,
+  SupportedLanguage,
+  SupportedLanguages,
+} from '@/schema/modeOutput'
+import {
+  CoreMessage,
+  DeepPartial,
+  generateObject,
+  generateText,
+  JSONParseError,
+  LanguageModelUsage,
+  LanguageModelV1,
+  streamObject,
+  TypeValidationError,
+} from 'ai'
+import { z } from 'zod'
+
+type OutputType = z.infer<typeof outputSchema>
+
+/**
+ * The validated object together with the tokens spent on it, when the
+ * provider reports them.
+ */
+export type ObjectResponce = {
+  object: OutputType
+  usage?: LanguageModelUsage
+}
+
+/**
+ * Adds up the usage of two calls, e.g. an invalid answer and its re-ask.
+ */
+const addUsage = (
+  a?: LanguageModelUsage,
+  b?: LanguageModelUsage
+): LanguageModelUsage | undefined =>
+  a && b
+    ? {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+      }
+    : a || b
+
+type ObjectResponceParams = {
+  messages: ChatHistoryParsed[] | []
+  systemPrompt: string
+  prompt: string
+  extractedCode?: string
+  model: LanguageModelV1
+  abortSignal?: AbortSignal
+  mode?: 'auto' | 'json' | 'tool'
+  schema?: OutputSchema
+}
+
+/**
+ * Builds the message list sent to the model.
+ *
+ * @param {ObjectResponceParams} params - The parameters for the object response.
+ * @returns {CoreMessage[]} The system prompt, extracted code, chat history and user prompt.
+ */
+const buildMessages = ({
+  messages,
+  systemPrompt,
+  prompt,
+  extractedCode,
+}: ObjectResponceParams): CoreMessage[] => [
+  { role: 'system', content: systemPrompt },
+  {
+    role: 'system',
+    content: `extractedCode (this code is writen by user): ${extractedCode}`,
+  },
+  ...(messages as CoreMessage[]),
+  { role: 'user', content: prompt },
+]
+
+/**
+ * Thrown when the model's answer still violates `outputSchema` after it was
+ * repaired and the model was asked once more.
+ */
+export class InvalidModelOutputError extends Error {
+  constructor(readonly cause: unknown) {
+    super(
+      "The model's answer didn't match the expected format. Please try again or pick another model."
+    )
+    this.name = 'InvalidModelOutputError'
+  }
+}
+
+/**
+ * Names models commonly use for a language, mapped to the prismjs name the
+ * schema accepts.
+ */
+const LANGUAGE_ALIASES: Record<string, SupportedLanguage> = {
+  py: 'python',
+  python3: 'python',
+  js: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  'c++': 'cpp',
+  cxx: 'cpp',
+  'c#': 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  swift: 'Swift',
+  mysql: 'sql',
+  postgresql: 'sql',
+}
+
+/**
+ * Maps a language name to one the schema accepts, or `undefined` when there
+ * is none. Dropping the language only loses syntax highlighting.
+ *
+ * @param {unknown} language - The language sent by the model.
+ * @returns {SupportedLanguage | undefined}
+ */
+const normalizeLanguage = (
+  language: unknown
+): SupportedLanguage | undefined => {
+  if (typeof language !== 'string') return undefined
+  const name = language.trim().toLowerCase()
+  return (
+    LANGUAGE_ALIASES[name] ||
+    SupportedLanguages.find((supported) => supported.toLowerCase() === name)
+  )
+}
+
+/**
+ * Tries to turn an answer that violates `outputSchema` into a valid one by
+ * parsing JSON text, truncating the hints, dropping null fields and mapping
+ * language aliases.
+ *
+ * @param {unknown} value - The invalid object, or the raw text of the answer.
+ * @param {OutputSchema} schema - The schema the answer must match.
+ * @returns {z.SafeParseReturnType} The validation result of the repaired object.
+ */
+const repairOutput = (
+  value: unknown,
+  schema: OutputSchema = outputSchema
+): z.SafeParseReturnType<unknown, OutputType> => {
+  let candidate = value
+  if (typeof candidate === 'string') {
+    try {
+      candidate = JSON.parse(
+        candidate.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '')
+      )
+    } catch {
+      return schema.safeParse(candidate)
+    }
+  }
+  if (!candidate || typeof candidate !== 'object') {
+    return schema.safeParse(candidate)
+  }
+
+  const { feedback, hints, snippet, programmingLanguage } = candidate as Record<
+    string,
+    unknown
+  >
+  const hintList = (typeof hints === 'string' ? [hints] : hints) || undefined
+
+  return schema.safeParse({
+    feedback,
+    hints: Array.isArray(hintList)
+      ? hintList.filter((hint) => typeof hint === 'string').slice(0, 2)
+      : undefined,
+    snippet: typeof snippet === 'string' ? snippet : undefined,
+    programmingLanguage: normalizeLanguage(programmingLanguage),
+  })
+}
+
+/**
+ * Recovers from an answer that failed validation: repairs it if possible,
+ * otherwise asks the model once more with the validation error and repairs
+ * that answer too. Errors that are not validation failures are rethrown.
+ *
+ * @param {unknown} error - The error thrown while generating the object.
+ * @param {ObjectResponceParams} params - The parameters of the failed request.
+ * @returns {Promise<ObjectResponce>} The repaired object, with the usage of the re-ask if there was one.
+ */
+const recoverInvalidOutput = async (
+  error: unknown,
+  params: ObjectResponceParams
+): Promise<ObjectResponce> => {
+  const invalid = TypeValidationError.isInstance(error)
+    ? error.value
+    : JSONParseError.isInstance(error)
+      ? error.text
+      : undefined
+  if (invalid === undefined) throw error
+
+  const repaired = repairOutput(invalid, params.schema)
+  if (repaired.success) return { object: repaired.data }
+
+  try {
+    const { object, usage } = await generateObject({
+      model: params.model,
+      schema: params.schema || outputSchema,
+      output: 'object',
+      messages: [
+        ...buildMessages(params),
+        {
+          role: 'assistant',
+          content:
+            typeof invalid === 'string' ? invalid : JSON.stringify(invalid),
+        },
+        {
+          role: 'user',
+          content: `Your answer did not match the required format: ${repaired.error.issues
+            .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+            .join('; ')}. Answer again in the required format.`,
+        },
+      ],
+      abortSignal: params.abortSignal,
+      mode: params.mode,
+      maxRetries: 0,
+    })
+    return { object, usage }
+  } catch (retryError) {
+    if (params.abortSignal?.aborted) throw retryError
+
+    const value = TypeValidationError.isInstance(retryError)
+      ? retryError.value
+      : JSONParseError.isInstance(retryError)
+        ? retryError.text
+        : undefined
+    const repairedRetry =
+      value === undefined ? null : repairOutput(value, params.schema)
+    if (repairedRetry?.success) return { object: repairedRetry.data }
+
+    throw new InvalidModelOutputError(retryError)
+  }
+}
 
 /**
  * Generates an object response based on the provided parameters.
  *
+ * Answers that violate `outputSchema` are repaired, or re-asked once, before
+ * an `InvalidModelOutputError` is thrown.
+ *
  * @param {Object} params - The parameters for generating the object response.
  * @param {ChatHistoryParsed[] | []} params.messages - The chat history messages.
  * @param {string} params.systemPrompt - The system prompt to use.
  * @param {string} params.prompt - The user prompt to use.
  * @param {string} [params.extractedCode] - Optional extracted code to include in the messages.
  * @param {LanguageModelV1} params.model - The language model to use.
- * @returns {Promise<GenerateObjectResult>} A promise that resolves with the generated object response.
+ * @param {AbortSignal} [params.abortSignal] - Optional signal that cancels the request.
+ * @param {'auto' | 'json' | 'tool'} [params.mode] - Optional object generation mode, defaults to the provider's choice.
+ * @param {OutputSchema} [params.schema] - Optional variant of `outputSchema` of the tutoring mode.
+ * @returns {Promise<ObjectResponce>} A promise that resolves with the generated object and its token usage.
  */
-export const generateObjectResponce = async ({
-  messages,
-  systemPrompt,
-  prompt,
-  extractedCode,
-  model,
-}: {
-  messages: ChatHistoryParsed[] | []
-  systemPrompt: string
-  prompt: string
-  extractedCode?: string
-  model: LanguageModelV1
-}): Promise<
-  GenerateObjectResult<{
-    feedback: string
-    hints?: string[] | undefined
-    snippet?: string | undefined
-    programmingLanguage?: string | undefined
-  }>
-> => {
-  const data = await generateObject({
-    model: model,
-    schema: outputSchema,
+export const generateObjectResponce = async (
+  params: ObjectResponceParams
+): Promise<ObjectResponce> => {
+  try {
+    const { object, usage } = await generateObject({
+      model: params.model,
+      schema: params.schema || outputSchema,
+      output: 'object',
+      messages: buildMessages(params),
+      abortSignal: params.abortSignal,
+      mode: params.mode,
+    })
+    return { object, usage }
+  } catch (error) {
+    return await recoverInvalidOutput(error, params)
+  }
+}
+
+/**
+ * Streams an object response based on the provided parameters.
+ *
+ * Yields the partial object every time the model sends more of it. The
+ * generator returns the final object and its token usage once it has been validated against
+ * `outputSchema`, repairing or re-asking like `generateObjectResponce` when
+ * validation fails. Retries of failed calls are left to
+ * `ModalService`, which can also fall back to another model.
+ *
+ * @param {ObjectResponceParams} params - The same parameters accepted by `generateObjectResponce`.
+ * @returns {AsyncGenerator} A generator of partial objects returning the final object.
+ */
+export async function* streamObjectResponce(
+  params: ObjectResponceParams
+): AsyncGenerator<DeepPartial<OutputType>, ObjectResponce, void> {
+  const { partialObjectStream, object, usage } = await streamObject({
+    model: params.model,
+    schema: params.schema || outputSchema,
     output: 'object',
+    messages: buildMessages(params),
+    abortSignal: params.abortSignal,
+    mode: params.mode,
+    maxRetries: 0,
+  })
+
+  for await (const partial of partialObjectStream) {
+    yield partial
+  }
+
+  try {
+    return { object: await object, usage: await usage }
+  } catch (error) {
+    const recovered = await recoverInvalidOutput(error, params)
+    return { ...recovered, usage: addUsage(await usage, recovered.usage) }
+  }
+}
+
+type SummaryResponceParams = {
+  messages: ChatHistoryParsed[]
+  previousSummary?: string
+  model: LanguageModelV1
+  abortSignal?: AbortSignal
+}
+
+/**
+ * Folds older turns of a conversation into a plain-text summary.
+ *
+ * @param {SummaryResponceParams} params - The parameters for the summary.
+ * @param {ChatHistoryParsed[]} params.messages - The turns to fold into the summary.
+ * @param {string} [params.previousSummary] - The summary the turns continue.
+ * @param {LanguageModelV1} params.model - The language model to use.
+ * @param {AbortSignal} [params.abortSignal] - Optional signal that cancels the request.
+ * @returns {Promise<{ text: string; usage?: LanguageModelUsage }>} The new summary and its token usage.
+ */
+export const generateSummaryResponce = async (
+  params: SummaryResponceParams
+): Promise<{ text: string; usage?: LanguageModelUsage }> => {
+  const { text, usage } = await generateText({
+    model: params.model,
     messages: [
-      { role: 'system', content: systemPrompt },
       {
         role: 'system',
-        content: `extractedCode (this code is writen by user): ${extractedCode}`,
+        content: SUMMARY_PROMPT.replace(
+          /{{previous_summary}}/g,
+          params.previousSummary || 'none'
+        ),
+      },
+      {
+        role: 'user',
+        content: params.messages
+          .map((message) => `${message.role}: ${message.content}`)
+          .join('\n\n'),
       },
-      ...messages,
-      { role: 'user', content: prompt },
     ],
+    abortSignal: params.abortSignal,
   })
 
-  return data
+  return { text: text.trim(), usage }
+}
+
+/**
+ * Sends the smallest possible request to check that the key is valid and the
+ * model can be used.
+ *
+ * @param {LanguageModelV1} model - The language model to check.
+ * @param {AbortSignal} [abortSignal] - Optional signal that cancels the request.
+ * @returns {Promise<void>} Resolves when the model answered, rejects with the provider's error.
+ */
+export const pingModel = async (
+  model: LanguageModelV1,
+  abortSignal?: AbortSignal
+): Promise<void> => {
+  await generateText({
+    model,
+    prompt: 'ping',
+    maxTokens: 1,
+    maxRetries: 0,
+    abortSignal,
+  })
 }
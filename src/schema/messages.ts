@@ -0,0 +1,465 @@
+import { z } from 'zod'
+import { SelectableModel } from '@/constants/valid_modals'
+import { BACKUP_FORMAT, BackupArchive } from '@/interface/backup'
+import { ProviderId } from '@/interface/catalog'
+import {
+  ChatHistory,
+  ChatThread,
+  ConversationDump,
+  ConversationSummary,
+  MessagePage,
+  MessageSearchHit,
+  StoredChatMessage,
+  ThreadOverview,
+} from '@/interface/chatHistory'
+import { LeetCodeProblem } from '@/interface/leetcodeProblem'
+import {
+  EDITOR_BRIDGE_SOURCE,
+  EditorContentResponse,
+} from '@/interface/editorBridge'
+import {
+  GeneratePortEvent,
+  GeneratePortRequest,
+  GenerateResult,
+  ModelStatus,
+  PageContext,
+  PendingResult,
+} from '@/interface/messages'
+import { GenerateResponsePartialType } from '@/interface/ModalInterface'
+import { CUSTOM_MODEL_PREFIX, CustomEndpoint } from '@/interface/customEndpoint'
+import { PromptTemplate } from '@/interface/promptTemplate'
+import { TokenUsage, UsageRecord } from '@/interface/usage'
+import { EncryptedValue, StoredVault } from '@/lib/keyVault'
+import { ProviderErrorKind } from '@/lib/providerErrors'
+import { outputSchema, tutoringModeSchema } from './modeOutput'
+
+const selectableModelSchema = z.custom<SelectableModel>(
+  (value) => typeof value === 'string' && value.length > 0
+)
+
+const providerErrorKindSchema: z.ZodType<ProviderErrorKind> = z.enum([
+  'aborted',
+  'rate_limit',
+  'quota',
+  'server',
+  'network',
+  'auth',
+  'not_found',
+  'bad_request',
+  'invalid_output',
+  'unknown',
+])
+
+const tokenUsageSchema: z.ZodType<TokenUsage> = z.object({
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+})
+
+const chatHistoryObjectSchema = z.object({
+  role: z.enum(['function', 'system', 'user', 'assistant', 'data', 'tool']),
+  content: z.union([z.string(), outputSchema]),
+  status: z.enum(['cancelled', 'error']).optional(),
+  model: selectableModelSchema.optional(),
+  mode: tutoringModeSchema.optional(),
+  usage: tokenUsageSchema.optional(),
+})
+
+export const chatHistorySchema: z.ZodType<ChatHistory> = chatHistoryObjectSchema
+
+const storedChatMessageSchema: z.ZodType<StoredChatMessage> =
+  chatHistoryObjectSchema.extend({
+    id: z.string(),
+    threadId: z.string(),
+    createdAt: z.number(),
+  })
+
+const conversationSummarySchema: z.ZodType<ConversationSummary> = z.object({
+  content: z.string(),
+  coveredCount: z.number().int().nonnegative(),
+})
+
+const chatThreadObjectSchema = z.object({
+  id: z.string(),
+  problemName: z.string(),
+  title: z.string(),
+  pageTitle: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+})
+
+const chatThreadSchema: z.ZodType<ChatThread> = chatThreadObjectSchema
+
+const threadOverviewSchema: z.ZodType<ThreadOverview> =
+  chatThreadObjectSchema.extend({ messageCount: z.number().int() })
+
+const messagePageSchema: z.ZodType<MessagePage> = z.object({
+  messages: z.array(storedChatMessageSchema),
+  nextCursor: z.number().nullable(),
+})
+
+const messageSearchHitSchema: z.ZodType<MessageSearchHit> = z.object({
+  thread: chatThreadSchema,
+  message: storedChatMessageSchema,
+})
+
+export const conversationDumpSchema: z.ZodType<ConversationDump> = z.object({
+  threads: z.array(
+    chatThreadObjectSchema.extend({
+      summary: conversationSummarySchema.optional(),
+    })
+  ),
+  messages: z.array(storedChatMessageSchema),
+})
+
+const leetCodeProblemSchema: z.ZodType<LeetCodeProblem> = z.object({
+  slug: z.string(),
+  title: z.string(),
+  difficulty: z.enum(['Easy', 'Medium', 'Hard']).nullable(),
+  tags: z.array(z.string()),
+  statement: z.string(),
+  examples: z.array(
+    z.object({
+      input: z.string(),
+      output: z.string(),
+      explanation: z.string().optional(),
+    })
+  ),
+  constraints: z.array(z.string()),
+})
+
+const pageContextSchema: z.ZodType<PageContext> = z.object({
+  problemStatement: z.string(),
+  programmingLanguage: z.string(),
+  extractedCode: z.string(),
+  pageContent: z.string().optional(),
+  problem: leetCodeProblemSchema.optional(),
+  pageUrl: z.string().optional(),
+})
+
+const generateResultSchema: z.ZodType<GenerateResult> = z.object({
+  error: z
+    .object({ kind: providerErrorKindSchema, message: z.string() })
+    .nullable(),
+  success: outputSchema.nullable(),
+  model: selectableModelSchema.nullable(),
+  usage: tokenUsageSchema.optional(),
+  summary: conversationSummarySchema.optional(),
+})
+
+export const generatePortRequestSchema: z.ZodType<GeneratePortRequest> =
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('generate'),
+      requestId: z.string(),
+      problemName: z.string(),
+      threadId: z.string(),
+      model: selectableModelSchema,
+      prompt: z.string(),
+      mode: tutoringModeSchema,
+      context: pageContextSchema,
+      history: z.array(chatHistorySchema),
+      summary: conversationSummarySchema.optional(),
+    }),
+    z.object({ type: z.literal('abort'), requestId: z.string() }),
+  ])
+
+/**
+ * Partial answers only have their shape checked: the limits of
+ * `outputSchema` hold for the final answer, not for one still being written.
+ */
+const partialOutputSchema: z.ZodType<GenerateResponsePartialType> = z.object({
+  feedback: z.string().optional(),
+  hints: z.array(z.string()).optional(),
+  snippet: z.string().optional(),
+  programmingLanguage: z.string().optional(),
+})
+
+export const generatePortEventSchema: z.ZodType<GeneratePortEvent> =
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('attempt'),
+      requestId: z.string(),
+      model: selectableModelSchema,
+    }),
+    z.object({
+      type: z.literal('partial'),
+      requestId: z.string(),
+      partial: partialOutputSchema,
+    }),
+    z.object({
+      type: z.literal('done'),
+      requestId: z.string(),
+      result: generateResultSchema,
+    }),
+  ])
+
+const modelStatusSchema: z.ZodType<ModelStatus> = z.object({
+  model: selectableModelSchema.optional(),
+  hasKey: z.boolean(),
+  locked: z.boolean(),
+})
+
+const pendingResultSchema: z.ZodType<PendingResult> = z.object({
+  requestId: z.string(),
+  problemName: z.string(),
+  threadId: z.string(),
+  prompt: z.string(),
+  mode: tutoringModeSchema,
+  result: generateResultSchema,
+})
+
+const customEndpointSchema: z.ZodType<CustomEndpoint> = z.object({
+  id: z.string(),
+  name: z.string(),
+  baseURL: z.string(),
+  model: z.string(),
+  apiKey: z.string().optional(),
+})
+
+const usageRecordSchema: z.ZodType<UsageRecord> = z.object({
+  createdAt: z.number(),
+  problemName: z.string(),
+  model: selectableModelSchema,
+  provider: z.enum([
+    'openai',
+    'google',
+    'anthropic',
+    'custom',
+  ]) as z.ZodType<ProviderId>,
+  promptTokens: z.number(),
+  completionTokens: z.number(),
+  cost: z.number().nullable(),
+})
+
+const encryptedValueSchema: z.ZodType<EncryptedValue> = z.object({
+  iv: z.string(),
+  data: z.string(),
+})
+
+const storedVaultSchema: z.ZodType<StoredVault> = z.object({
+  version: z.literal(1),
+  salt: z.string(),
+  iterations: z.number().int().positive(),
+  verifier: encryptedValueSchema,
+  keys: z
+    .object({
+      openai: encryptedValueSchema.optional(),
+      google: encryptedValueSchema.optional(),
+      anthropic: encryptedValueSchema.optional(),
+    })
+    // Keys of custom endpoints, by their model id.
+    .catchall(encryptedValueSchema)
+    .refine(
+      (keys) =>
+        Object.keys(keys).every(
+          (entry) =>
+            ['openai', 'google', 'anthropic'].includes(entry) ||
+            entry.startsWith(CUSTOM_MODEL_PREFIX)
+        ),
+      'Unknown key in the vault'
+    ),
+})
+
+const promptTemplateSchema: z.ZodType<PromptTemplate> = z.object({
+  id: z.string(),
+  name: z.string(),
+  content: z.string(),
+  version: z.number().int().positive(),
+  updatedAt: z.number(),
+  sites: z.array(z.string()),
+  revisions: z.array(
+    z.object({
+      version: z.number().int().positive(),
+      content: z.string(),
+      updatedAt: z.number(),
+    })
+  ),
+})
+
+export const backupArchiveSchema: z.ZodType<BackupArchive> = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(1),
+  createdAt: z.string(),
+  settings: z.object({
+    selectedModel: selectableModelSchema.optional(),
+    fallbackModels: z.array(selectableModelSchema),
+    customEndpoints: z.array(customEndpointSchema),
+    usageBudget: z.number().positive().nullable(),
+    promptTemplates: z.array(promptTemplateSchema).optional(),
+    threadPromptTemplates: z.record(z.string()).optional(),
+    threadTutoringModes: z.record(tutoringModeSchema).optional(),
+  }),
+  secrets: z
+    .object({
+      vault: storedVaultSchema.optional(),
+      legacyKeys: z.record(z.string()),
+    })
+    .optional(),
+  conversations: conversationDumpSchema,
+  usage: z.array(usageRecordSchema),
+})
+
+/**
+ * Requests answered by the background, with the schemas of their payload and
+ * response. `getPageContext` is answered by the content script of a tab.
+ */
+export const requestSchemas = {
+  openPopup: {
+    payload: z.object({}),
+    response: z.void(),
+  },
+  getModelStatus: {
+    payload: z.object({}),
+    response: modelStatusSchema,
+  },
+  takePendingResults: {
+    payload: z.object({ problemName: z.string() }),
+    response: z.array(pendingResultSchema),
+  },
+  getThreads: {
+    payload: z.object({ problemName: z.string() }),
+    response: z.array(chatThreadSchema),
+  },
+  getAllThreads: {
+    payload: z.object({}),
+    response: z.array(threadOverviewSchema),
+  },
+  createThread: {
+    payload: z.object({
+      problemName: z.string(),
+      title: z.string().optional(),
+      pageTitle: z.string().optional(),
+    }),
+    response: chatThreadSchema,
+  },
+  renameThread: {
+    payload: z.object({ threadId: z.string(), title: z.string() }),
+    response: z.void(),
+  },
+  deleteThread: {
+    payload: z.object({ threadId: z.string() }),
+    response: z.void(),
+  },
+  deleteThreads: {
+    payload: z.object({ threadIds: z.array(z.string()) }),
+    response: z.void(),
+  },
+  appendMessages: {
+    payload: z.object({
+      threadId: z.string(),
+      messages: z.array(chatHistorySchema),
+    }),
+    response: z.array(storedChatMessageSchema),
+  },
+  getMessagePage: {
+    payload: z.object({
+      threadId: z.string(),
+      limit: z.number().int().positive(),
+      before: z.number().optional(),
+    }),
+    response: messagePageSchema,
+  },
+  getAllMessages: {
+    payload: z.object({ threadId: z.string() }),
+    response: z.array(storedChatMessageSchema),
+  },
+  clearChatHistory: {
+    payload: z.object({ threadId: z.string() }),
+    response: z.void(),
+  },
+  getConversationSummary: {
+    payload: z.object({ threadId: z.string() }),
+    response: conversationSummarySchema.optional(),
+  },
+  saveConversationSummary: {
+    payload: z.object({
+      threadId: z.string(),
+      summary: conversationSummarySchema,
+    }),
+    response: z.void(),
+  },
+  searchMessages: {
+    payload: z.object({ query: z.string() }),
+    response: z.array(messageSearchHitSchema),
+  },
+  exportConversations: {
+    payload: z.object({ threadIds: z.array(z.string()) }),
+    response: conversationDumpSchema,
+  },
+  importConversations: {
+    payload: conversationDumpSchema,
+    response: z.void(),
+  },
+  /**
+   * Imports the conversations of the sender's site only, for content
+   * scripts. Threads already stored are left alone.
+   */
+  importPageConversations: {
+    payload: conversationDumpSchema,
+    response: z.void(),
+  },
+  getPageContext: {
+    payload: z.object({}),
+    response: pageContextSchema,
+  },
+  createBackup: {
+    payload: z.object({ includeSecrets: z.boolean() }),
+    response: backupArchiveSchema,
+  },
+  restoreBackup: {
+    payload: z.object({
+      archive: backupArchiveSchema,
+      mode: z.enum(['merge', 'replace']),
+    }),
+    response: z.object({ warnings: z.array(z.string()) }),
+  },
+}
+
+/**
+ * Events broadcast to every context, with the schemas of their payload.
+ */
+export const eventSchemas = {
+  /**
+   * Settings in `chrome.storage.local` changed, or the key vault was locked
+   * or unlocked; `keys` lists the changed storage keys.
+   */
+  settingsChanged: z.object({ keys: z.array(z.string()) }),
+}
+
+/**
+ * Envelope of everything sent with `chrome.runtime.sendMessage`.
+ */
+export const busMessageSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('request'),
+    action: z.string(),
+    payload: z.unknown(),
+  }),
+  z.object({
+    kind: z.literal('event'),
+    event: z.string(),
+    payload: z.unknown(),
+  }),
+])
+
+/**
+ * What a request handler sends back.
+ */
+export const busResponseSchema = z.union([
+  z.object({ ok: z.literal(true), data: z.unknown() }),
+  z.object({ ok: z.literal(false), error: z.string() }),
+])
+
+/**
+ * The editor bridge's answer, read from the page's `window.postMessage`
+ * traffic, which any script of the page can send.
+ */
+export const editorContentResponseSchema: z.ZodType<EditorContentResponse> =
+  z.object({
+    source: z.literal(EDITOR_BRIDGE_SOURCE),
+    type: z.literal('editorContent'),
+    requestId: z.string(),
+    content: z
+      .object({ code: z.string(), language: z.string().nullable() })
+      .nullable(),
+  })
@@ -1,6 +1,6 @@
 import { z } from 'zod'
 
-const SupportedLanguages = [
+export const SupportedLanguages = [
   'c',
   'cpp',
   'csharp',
@@ -27,6 +27,8 @@ const SupportedLanguages = [
   'tsx',
 ] as const
 
+export type SupportedLanguage = (typeof SupportedLanguages)[number]
+
 export const outputSchema = z.object({
   feedback: z.string(),
   hints: z
@@ -40,3 +42,39 @@ export const outputSchema = z.object({
     .optional()
     .describe('Programming language code as supports by prismjs'),
 })
+
+/**
+ * The schema every mode's answer is validated against, whatever fields it
+ * leaves out.
+ */
+export type OutputSchema = z.ZodType<z.infer<typeof outputSchema>>
+
+/**
+ * How the assistant tutors: `guided` is the original step-by-step persona.
+ */
+export const tutoringModeSchema = z.enum([
+  'guided',
+  'hint',
+  'socratic',
+  'review',
+  'explain',
+])
+
+export type TutoringMode = z.infer<typeof tutoringModeSchema>
+
+/**
+ * Answers of modes that must not show code have no `snippet`, so a snippet
+ * the model sends anyway is dropped during validation.
+ */
+const noCodeOutputSchema = outputSchema.omit({
+  snippet: true,
+  programmingLanguage: true,
+})
+
+export const modeOutputSchemas: Record<TutoringMode, OutputSchema> = {
+  guided: outputSchema,
+  hint: noCodeOutputSchema,
+  socratic: noCodeOutputSchema,
+  review: outputSchema,
+  explain: outputSchema,
+}
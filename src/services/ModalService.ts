@@ -1,11 +1,50 @@
 import { z } from 'zod'
-import { ValidModel } from '@/constants/valid_modals'
-import { modals } from '@/modals'
+import { LanguageModelUsage } from 'ai'
+import { createModal } from '@/modals'
+import { CatalogModel } from '@/interface/catalog'
 import {
   GenerateResponseParamsType,
+  GenerateResponsePartialType,
   ModalInterface,
+  SummarizeParamsType,
 } from '@/interface/ModalInterface'
 import { outputSchema } from '@/schema/modeOutput'
+import { classifyProviderError } from '@/lib/providerErrors'
+
+/**
+ * A model the service may answer with, together with the key to use for it.
+ */
+export interface ModalCandidate {
+  model: CatalogModel
+  apiKey?: string
+}
+
+/**
+ * How often a model is retried on rate limits, server and network errors
+ * before the next candidate is tried.
+ */
+const MAX_RETRIES = 2
+
+/**
+ * Base delay of the exponential backoff between retries.
+ */
+const RETRY_BASE_DELAY_MS = 1000
+
+/**
+ * Waits for the given time, or less if the signal aborts.
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout)
+      resolve()
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 
 /**
  * Service to manage and interact with modals.
@@ -18,18 +57,13 @@ export class ModalService {
   private activeModal: ModalInterface | null = null
 
   /**
-   * Selects a modal by its name and initializes it with an optional API key.
-   * @param modalName - The name of the modal to select.
+   * Selects a modal from the model catalog and initializes it with an optional API key.
+   * @param model - The catalog entry of the model to select.
    * @param apiKey - An optional API key to initialize the modal with.
-   * @throws Will throw an error if the modal with the given name is not found.
    */
-  selectModal(modalName: ValidModel, apiKey?: string) {
-    if (modals[modalName]) {
-      this.activeModal = modals[modalName]
-      this.activeModal.init(apiKey)
-    } else {
-      throw new Error(`Modal "${modalName}" not found`)
-    }
+  selectModal(model: CatalogModel, apiKey?: string) {
+    this.activeModal = createModal(model)
+    this.activeModal.init(apiKey)
   }
 
   /**
@@ -42,6 +76,7 @@ export class ModalService {
     Promise<{
       error: Error | null
       success: z.infer<typeof outputSchema> | null
+      usage?: LanguageModelUsage
     }>
   > {
     if (!this.activeModal) {
@@ -49,4 +84,108 @@ export class ModalService {
     }
     return this.activeModal.generateResponse(props)
   }
+
+  /**
+   * Streams a response using the currently active modal.
+   * @param props - The parameters required to generate the response.
+   * @param onPartial - Called with every partial object received from the model.
+   * @returns A promise that resolves to an object containing either an error or the validated final response.
+   * @throws Will throw an error if no modal is selected.
+   */
+  async stream(
+    props: GenerateResponseParamsType,
+    onPartial: (partial: GenerateResponsePartialType) => void
+  ): Promise<{
+    error: Error | null
+    success: z.infer<typeof outputSchema> | null
+    usage?: LanguageModelUsage
+  }> {
+    if (!this.activeModal) {
+      throw new Error('No modal selected')
+    }
+
+    const stream = this.activeModal.streamResponse(props)
+    let result = await stream.next()
+    while (!result.done) {
+      onPartial(result.value)
+      result = await stream.next()
+    }
+    return result.value
+  }
+
+  /**
+   * Summarizes older turns of a conversation using the currently active modal.
+   * @param props - The turns to summarize and the summary they continue.
+   * @returns A promise that resolves to an object containing either an error or the summary.
+   * @throws Will throw an error if no modal is selected.
+   */
+  async summarize(props: SummarizeParamsType): Promise<{
+    error: Error | null
+    success: string | null
+    usage?: LanguageModelUsage
+  }> {
+    if (!this.activeModal) {
+      throw new Error('No modal selected')
+    }
+    return this.activeModal.summarize(props)
+  }
+
+  /**
+   * Streams a response, falling back through the given candidates.
+   *
+   * Retryable failures (rate limits, server and network errors) are retried
+   * with exponential backoff. Once a model keeps failing, or fails with an
+   * error retrying cannot fix such as an invalid key, the next candidate is
+   * tried. Aborting stops the whole chain.
+   *
+   * @param candidates - The models to try, in order.
+   * @param props - The parameters required to generate the response.
+   * @param onPartial - Called with every partial object received from the model.
+   * @param onAttempt - Called before every attempt, e.g. to reset a partially streamed answer.
+   * @returns The final response together with the model that produced it and its token usage.
+   */
+  async streamWithFallback(
+    candidates: ModalCandidate[],
+    props: GenerateResponseParamsType,
+    onPartial: (partial: GenerateResponsePartialType) => void,
+    onAttempt?: (model: CatalogModel, attempt: number) => void
+  ): Promise<{
+    error: Error | null
+    success: z.infer<typeof outputSchema> | null
+    model: CatalogModel | null
+    usage?: LanguageModelUsage
+  }> {
+    let lastError: Error | null = new Error('No model configured')
+
+    for (const candidate of candidates) {
+      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        if (attempt > 0) {
+          await sleep(
+            RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+            props.abortSignal
+          )
+        }
+        if (props.abortSignal?.aborted) {
+          return { error: lastError, success: null, model: null }
+        }
+
+        this.selectModal(candidate.model, candidate.apiKey)
+        onAttempt?.(candidate.model, attempt)
+
+        const { error, success, usage } = await this.stream(props, onPartial)
+        if (!error) {
+          return { error: null, success, model: candidate.model, usage }
+        }
+
+        lastError = error
+        const { kind, retryable } = classifyProviderError(error)
+        if (kind === 'aborted') {
+          return { error, success: null, model: null }
+        }
+        if (!retryable) break
+      }
+    }
+
+    return { error: lastError, success: null, model: null }
+  }
 }
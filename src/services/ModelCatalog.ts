@@ -0,0 +1,307 @@
+import { SelectableModel, VALID_MODELS } from '@/constants/valid_modals'
+import {
+  CatalogModel,
+  ModelCapabilities,
+  ProviderCatalog,
+  ProviderId,
+} from '@/interface/catalog'
+import { CustomEndpoint, toCustomModel } from '@/interface/customEndpoint'
+
+const CATALOG_CACHE_KEY = 'modelCatalog'
+
+/**
+ * Models discovered through the providers' models endpoints, cached in
+ * `chrome.storage.local` so content scripts never have to query them.
+ */
+interface CatalogCache {
+  updatedAt: number
+  models: CatalogModel[]
+}
+
+const DEFAULT_CAPABILITIES: ModelCapabilities = {
+  contextWindow: 8_192,
+  structuredOutput: true,
+  vision: false,
+}
+
+/**
+ * Capabilities of well-known model families that are not in the bundled
+ * manifest, matched against the provider's model id.
+ */
+const KNOWN_CAPABILITIES: [RegExp, ModelCapabilities][] = [
+  [
+    /^(gpt-4o|gpt-4\.1|gpt-4-turbo|o\d)/,
+    { contextWindow: 128_000, structuredOutput: true, vision: true },
+  ],
+  [/^gpt-4/, { contextWindow: 8_192, structuredOutput: true, vision: false }],
+  [
+    /^gpt-3\.5/,
+    { contextWindow: 16_385, structuredOutput: true, vision: false },
+  ],
+  [
+    /^claude-/,
+    { contextWindow: 200_000, structuredOutput: true, vision: true },
+  ],
+  [
+    /^gemini-/,
+    { contextWindow: 1_048_576, structuredOutput: true, vision: true },
+  ],
+]
+
+/**
+ * Guesses the capabilities of a model the bundled manifest does not know.
+ *
+ * @param {string} model - The provider's model id.
+ * @returns {ModelCapabilities}
+ */
+const guessCapabilities = (model: string): ModelCapabilities =>
+  KNOWN_CAPABILITIES.find(([pattern]) => pattern.test(model))?.[1] ||
+  DEFAULT_CAPABILITIES
+
+const remoteModel = (
+  provider: Exclude<ProviderId, 'custom'>,
+  model: string,
+  display: string,
+  capabilities: Partial<ModelCapabilities> = {}
+): CatalogModel => ({
+  name: `${provider}:${model}`,
+  model,
+  provider,
+  display,
+  capabilities: { ...guessCapabilities(model), ...capabilities },
+  source: 'remote',
+})
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, init)
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`)
+  }
+  return response.json()
+}
+
+/**
+ * Providers that can list their models through an API.
+ */
+export const PROVIDER_CATALOGS: ProviderCatalog[] = [
+  {
+    id: 'openai',
+    display: 'OpenAI',
+    listModels: async (apiKey) => {
+      const body = await fetchJson('https://api.openai.com/v1/models', {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      })
+      return (body.data as { id: string }[])
+        .map(({ id }) => id)
+        .filter(
+          (id) =>
+            /^(gpt-|o\d|chatgpt-)/.test(id) &&
+            !/(audio|realtime|transcribe|tts|image|search|instruct)/.test(id)
+        )
+        .map((id) => remoteModel('openai', id, id))
+    },
+  },
+  {
+    id: 'google',
+    display: 'Google',
+    listModels: async (apiKey) => {
+      const body = await fetchJson(
+        `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`
+      )
+      return (
+        body.models as {
+          name: string
+          displayName: string
+          inputTokenLimit: number
+          supportedGenerationMethods: string[]
+        }[]
+      )
+        .filter((model) =>
+          model.supportedGenerationMethods.includes('generateContent')
+        )
+        .map((model) =>
+          remoteModel(
+            'google',
+            model.name.replace(/^models\//, ''),
+            model.displayName,
+            { contextWindow: model.inputTokenLimit }
+          )
+        )
+    },
+  },
+  {
+    id: 'anthropic',
+    display: 'Anthropic',
+    listModels: async (apiKey) => {
+      const body = await fetchJson('https://api.anthropic.com/v1/models', {
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+      })
+      return (body.data as { id: string; display_name: string }[]).map(
+        (model) => remoteModel('anthropic', model.id, model.display_name)
+      )
+    },
+  },
+]
+
+/**
+ * Returns the models of the bundled manifest.
+ *
+ * @returns {CatalogModel[]}
+ */
+export const getBundledModels = (): CatalogModel[] =>
+  VALID_MODELS.map((model) => ({
+    ...model,
+    capabilities: { ...model.capabilities },
+    source: 'manifest',
+  }))
+
+/**
+ * Turns the user's custom endpoints into catalog entries.
+ *
+ * @param {CustomEndpoint[]} endpoints - The stored custom endpoints.
+ * @returns {CatalogModel[]}
+ */
+export const getCustomModels = (endpoints: CustomEndpoint[]): CatalogModel[] =>
+  endpoints.map((endpoint) => ({
+    name: toCustomModel(endpoint),
+    model: endpoint.model,
+    provider: 'custom',
+    display: endpoint.name,
+    capabilities: {
+      ...DEFAULT_CAPABILITIES,
+      structuredOutput: false,
+    },
+    source: 'custom',
+    endpoint,
+  }))
+
+/**
+ * Merges bundled, discovered and custom models. Discovered models that the
+ * bundled manifest already lists are dropped so stored selections and keys
+ * keep pointing at the manifest entry.
+ *
+ * @param {CatalogModel[]} remote - Models discovered through the providers.
+ * @param {CustomEndpoint[]} endpoints - The stored custom endpoints.
+ * @returns {CatalogModel[]}
+ */
+export const mergeCatalog = (
+  remote: CatalogModel[],
+  endpoints: CustomEndpoint[]
+): CatalogModel[] => {
+  const bundled = getBundledModels()
+  const isBundled = (model: CatalogModel) =>
+    bundled.some(
+      (b) => b.provider === model.provider && b.model === model.model
+    )
+
+  return [
+    ...bundled,
+    ...remote.filter((model) => !isBundled(model)),
+    ...getCustomModels(endpoints),
+  ]
+}
+
+/**
+ * Reads the full catalog from `chrome.storage.local`.
+ *
+ * @returns {Promise<CatalogModel[]>}
+ */
+export const getCatalog = async (): Promise<CatalogModel[]> => {
+  const result = await chrome.storage.local.get([
+    CATALOG_CACHE_KEY,
+    'customEndpoints',
+  ])
+  const cache = result[CATALOG_CACHE_KEY] as CatalogCache | undefined
+  return mergeCatalog(
+    cache?.models || [],
+    (result['customEndpoints'] as CustomEndpoint[]) || []
+  )
+}
+
+/**
+ * Queries the models endpoint of every provider a key is given for and
+ * caches the result. A provider that fails keeps its previously cached models.
+ *
+ * @param {Partial<Record<ProviderId, string>>} keys - API keys by provider.
+ * @returns {Promise<Partial<Record<ProviderId, string>>>} Error messages by provider.
+ */
+export const refreshCatalog = async (
+  keys: Partial<Record<ProviderId, string>>
+): Promise<Partial<Record<ProviderId, string>>> => {
+  const result = await chrome.storage.local.get(CATALOG_CACHE_KEY)
+  const cache = (result[CATALOG_CACHE_KEY] as CatalogCache | undefined) || {
+    updatedAt: 0,
+    models: [],
+  }
+  const errors: Partial<Record<ProviderId, string>> = {}
+  let models = cache.models
+
+  for (const provider of PROVIDER_CATALOGS) {
+    const apiKey = keys[provider.id]
+    if (!apiKey) continue
+
+    try {
+      const listed = await provider.listModels(apiKey)
+      models = [
+        ...models.filter((model) => model.provider !== provider.id),
+        ...listed,
+      ]
+    } catch (error: any) {
+      errors[provider.id] = error.message
+    }
+  }
+
+  await chrome.storage.local.set({
+    [CATALOG_CACHE_KEY]: { updatedAt: Date.now(), models } as CatalogCache,
+  })
+  return errors
+}
+
+/**
+ * Finds a model of the catalog by its selectable id.
+ *
+ * @param {CatalogModel[]} catalog - The catalog to search.
+ * @param {SelectableModel | null | undefined} name - The model id.
+ * @returns {CatalogModel | undefined}
+ */
+export const findModel = (
+  catalog: CatalogModel[],
+  name: SelectableModel | null | undefined
+): CatalogModel | undefined => catalog.find((model) => model.name === name)
+
+/**
+ * Groups the catalog by provider, keeping the catalog order.
+ *
+ * @param {CatalogModel[]} catalog - The catalog to group.
+ * @returns {[ProviderId, CatalogModel[]][]}
+ */
+export const groupByProvider = (
+  catalog: CatalogModel[]
+): [ProviderId, CatalogModel[]][] => {
+  const groups = new Map<ProviderId, CatalogModel[]>()
+  catalog.forEach((model) => {
+    groups.set(model.provider, [...(groups.get(model.provider) || []), model])
+  })
+  return Array.from(groups.entries())
+}
+
+/**
+ * Summarizes a model's capabilities for the pickers, e.g. `128k · vision`.
+ *
+ * @param {CatalogModel} model - The catalog entry.
+ * @returns {string}
+ */
+export const describeCapabilities = ({ capabilities }: CatalogModel): string =>
+  [
+    capabilities.contextWindow >= 1_000_000
+      ? `${Math.round(capabilities.contextWindow / 1_000_000)}M`
+      : `${Math.round(capabilities.contextWindow / 1_000)}k`,
+    capabilities.vision && 'vision',
+    !capabilities.structuredOutput && 'json only',
+  ]
+    .filter(Boolean)
+    .join(' · ')
@@ -0,0 +1,192 @@
+import { z } from 'zod'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import {
+  BACKUP_FORMAT,
+  BackupArchive,
+  RestoreMode,
+  RestoreResult,
+} from '@/interface/backup'
+import { toCustomModel } from '@/interface/customEndpoint'
+import { UsageRecord } from '@/interface/usage'
+import {
+  exportConversations,
+  getAllThreads,
+  importConversations,
+  replaceConversations,
+} from '@/lib/indexedDB'
+import { getVaultBackup, restoreVaultBackup, setVaultKey } from '@/lib/keyVault'
+import {
+  getPromptTemplateBackup,
+  restorePromptTemplateBackup,
+} from '@/services/promptTemplates'
+import {
+  getTutoringModeBackup,
+  restoreTutoringModeBackup,
+} from '@/services/tutoringModes'
+import { backupArchiveSchema } from '@/schema/messages'
+import { getUsageLog, updateUsageLog } from './usage'
+
+/**
+ * Collects the settings, the conversations, the usage log and, on request,
+ * the API keys into a backup archive. Runs in the background, which owns the
+ * chat database.
+ *
+ * @param {boolean} includeSecrets - Whether to include the API keys.
+ * @returns {Promise<BackupArchive>}
+ */
+export const createBackup = async (
+  includeSecrets: boolean
+): Promise<BackupArchive> => {
+  const storage = useChromeStorage()
+
+  return {
+    format: BACKUP_FORMAT,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    settings: {
+      selectedModel: await storage.selectModel(),
+      fallbackModels: await storage.getFallbackModels(),
+      customEndpoints: await storage.getCustomEndpoints(),
+      usageBudget: await storage.getUsageBudget(),
+      ...(await getPromptTemplateBackup()),
+      ...(await getTutoringModeBackup()),
+    },
+    secrets: includeSecrets ? await getVaultBackup() : undefined,
+    conversations: await exportConversations(
+      (await getAllThreads()).map((thread) => thread.id)
+    ),
+    usage: await getUsageLog(),
+  }
+}
+
+const usageRecordKey = (record: UsageRecord) =>
+  `${record.createdAt}:${record.problemName}:${record.model}`
+
+/**
+ * Restores a backup archive. Custom endpoints archived without their key keep
+ * the key they have here. Keys that archives of earlier versions kept with
+ * their endpoints go into the vault when it is unlocked.
+ *
+ * @param {BackupArchive} archive - The validated archive.
+ * @param {RestoreMode} mode - Whether to merge into or replace the current state.
+ * @returns {Promise<RestoreResult>} What could not be restored.
+ */
+export const restoreBackup = async (
+  { settings, secrets, conversations, usage }: BackupArchive,
+  mode: RestoreMode
+): Promise<RestoreResult> => {
+  const storage = useChromeStorage()
+  const currentEndpoints = await storage.getCustomEndpoints()
+  const endpoints = settings.customEndpoints.map(
+    ({ apiKey: _apiKey, ...endpoint }) => endpoint
+  )
+  const restoredEndpoints =
+    mode === 'replace'
+      ? endpoints
+      : endpoints.filter(
+          (endpoint) =>
+            !currentEndpoints.some((current) => current.id === endpoint.id)
+        )
+
+  if (mode === 'replace') {
+    if (settings.selectedModel) {
+      await storage.setSelectModel(settings.selectedModel)
+    } else {
+      await chrome.storage.local.remove('selectedModel')
+    }
+    await storage.setFallbackModels(settings.fallbackModels)
+    await storage.setCustomEndpoints(endpoints)
+    await storage.setUsageBudget(settings.usageBudget)
+    await replaceConversations(conversations)
+    await updateUsageLog(() => usage)
+  } else {
+    if (settings.selectedModel && !(await storage.selectModel())) {
+      await storage.setSelectModel(settings.selectedModel)
+    }
+    if ((await storage.getFallbackModels()).length === 0) {
+      await storage.setFallbackModels(settings.fallbackModels)
+    }
+    await storage.setCustomEndpoints([
+      ...currentEndpoints,
+      ...restoredEndpoints,
+    ])
+    if (!(await storage.getUsageBudget())) {
+      await storage.setUsageBudget(settings.usageBudget)
+    }
+    await importConversations(conversations)
+
+    await updateUsageLog((log) => {
+      const known = new Set(log.map(usageRecordKey))
+      return [
+        ...log,
+        ...usage.filter((record) => !known.has(usageRecordKey(record))),
+      ].sort((a, b) => a.createdAt - b.createdAt)
+    })
+  }
+
+  await restorePromptTemplateBackup(settings, mode)
+  await restoreTutoringModeBackup(settings, mode)
+  const warning = secrets ? await restoreVaultBackup(secrets, mode) : null
+  const warnings = warning ? [warning] : []
+
+  const archivedKeys = settings.customEndpoints.filter(
+    (endpoint) =>
+      endpoint.apiKey &&
+      restoredEndpoints.some((restored) => restored.id === endpoint.id)
+  )
+  try {
+    for (const endpoint of archivedKeys) {
+      await setVaultKey(toCustomModel(endpoint), endpoint.apiKey!)
+    }
+  } catch {
+    warnings.push(
+      'The API keys of custom endpoints in this backup were not restored: unlock your keys and restore it again.'
+    )
+  }
+  return { warnings }
+}
+
+/**
+ * Reads a backup file.
+ *
+ * @param {string} text - The content of the file.
+ * @returns {{ error: string | null, success: BackupArchive | null }}
+ */
+export const parseBackup = (
+  text: string
+):
+  | { error: string; success: null }
+  | { error: null; success: BackupArchive } => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { error: 'The file is not valid JSON.', success: null }
+  }
+
+  const header = z
+    .object({ format: z.literal(BACKUP_FORMAT), version: z.number() })
+    .safeParse(data)
+  if (!header.success) {
+    return {
+      error: 'The file is not a backup of this extension.',
+      success: null,
+    }
+  }
+  if (header.data.version !== 1) {
+    return {
+      error: `Backups of version ${header.data.version} need a newer version of the extension.`,
+      success: null,
+    }
+  }
+
+  const parsed = backupArchiveSchema.safeParse(data)
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues
+    return {
+      error: `Invalid backup at ${issue.path.join('.')}: ${issue.message}`,
+      success: null,
+    }
+  }
+  return { error: null, success: parsed.data }
+}
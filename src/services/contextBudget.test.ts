@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest'
+import { CatalogModel } from '@/interface/catalog'
+import { ChatHistory } from '@/interface/chatHistory'
+import {
+  estimateTokens,
+  getPromptBudget,
+  planContext,
+  truncateToTokens,
+} from '@/services/contextBudget'
+
+const createModel = (
+  provider: CatalogModel['provider'],
+  contextWindow: number
+): CatalogModel => ({
+  name: 'openai_4o',
+  model: 'gpt-4o',
+  provider,
+  display: 'GPT-4o',
+  capabilities: { contextWindow, structuredOutput: true, vision: false },
+  source: 'manifest',
+})
+
+const MODEL = createModel('openai', 128_000)
+
+/**
+ * Ten turns of 36 characters, which cost 13 tokens each with their overhead.
+ */
+const HISTORY: ChatHistory[] = Array.from({ length: 10 }, (_, index) => ({
+  role: index % 2 ? 'assistant' : 'user',
+  content: `Turn ${index}`.padEnd(36, '.'),
+}))
+
+describe('estimateTokens', () => {
+  it('uses the ratio of the provider', () => {
+    expect(estimateTokens('a'.repeat(40), MODEL)).toBe(10)
+    expect(estimateTokens('a'.repeat(42), createModel('custom', 8_000))).toBe(
+      14
+    )
+  })
+})
+
+describe('truncateToTokens', () => {
+  it('keeps a text within the budget', () => {
+    expect(truncateToTokens('short', 10, MODEL)).toBe('short')
+  })
+
+  it('keeps the start of a longer text', () => {
+    expect(truncateToTokens('abcdefghij', 2, MODEL)).toBe(
+      'abcdefgh\n… (truncated)'
+    )
+  })
+})
+
+describe('getPromptBudget', () => {
+  it('caps large context windows', () => {
+    expect(getPromptBudget([MODEL])).toBe(32_000)
+  })
+
+  it('fits the smallest window of the fallback chain', () => {
+    expect(getPromptBudget([MODEL, createModel('custom', 8_000)])).toBe(5_952)
+  })
+})
+
+describe('planContext', () => {
+  it('sends the whole history when it fits', () => {
+    expect(
+      planContext({ model: MODEL, budget: 200, fixed: [], history: HISTORY })
+    ).toEqual({ recentStart: 0, needsSummary: false })
+  })
+
+  it('summarizes older turns and keeps half the budget of recent ones', () => {
+    expect(
+      planContext({ model: MODEL, budget: 100, fixed: [], history: HISTORY })
+    ).toEqual({ recentStart: 7, needsSummary: true })
+  })
+
+  it('leaves room for the texts sent on every turn', () => {
+    expect(
+      planContext({
+        model: MODEL,
+        budget: 200,
+        fixed: ['a'.repeat(400)],
+        history: HISTORY,
+      })
+    ).toEqual({ recentStart: 7, needsSummary: true })
+  })
+
+  it('only plans the turns the summary does not cover', () => {
+    expect(
+      planContext({
+        model: MODEL,
+        budget: 100,
+        fixed: [],
+        history: HISTORY,
+        summary: { content: '', coveredCount: 4 },
+      })
+    ).toEqual({ recentStart: 4, needsSummary: false })
+  })
+})
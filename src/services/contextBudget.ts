@@ -0,0 +1,183 @@
+import { CatalogModel, ProviderId } from '@/interface/catalog'
+import { ChatHistory, ConversationSummary } from '@/interface/chatHistory'
+
+/**
+ * Rough number of characters per token of each provider's tokenizer. Custom
+ * endpoints run unknown models, so they are estimated conservatively.
+ */
+const CHARS_PER_TOKEN: Record<ProviderId, number> = {
+  openai: 4,
+  google: 4,
+  anthropic: 3.5,
+  custom: 3,
+}
+
+/**
+ * Tokens kept free for the model's answer.
+ */
+const OUTPUT_RESERVE_TOKENS = 2_048
+
+/**
+ * Upper bound of a prompt, so million-token models stay affordable.
+ */
+const MAX_PROMPT_TOKENS = 32_000
+
+/**
+ * Share of the prompt budget the user's code may take before it is truncated.
+ */
+const MAX_CODE_SHARE = 0.25
+
+/**
+ * Share of the prompt budget the page context (transcripts, article text) may
+ * take before it is truncated.
+ */
+const MAX_PAGE_CONTENT_SHARE = 0.2
+
+/**
+ * Share of the history budget the verbatim turns keep after older turns were
+ * folded into the summary, so the summary is not rebuilt on every turn.
+ */
+const RECENT_SHARE_AFTER_SUMMARY = 0.5
+
+/**
+ * Tokens a message costs on top of its content (role, separators).
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+/**
+ * Estimates the number of tokens of a text for a model.
+ *
+ * @param {string} text - The text to measure.
+ * @param {CatalogModel} model - The model the text is sent to.
+ * @returns {number}
+ */
+export const estimateTokens = (text: string, model: CatalogModel): number =>
+  Math.ceil(text.length / CHARS_PER_TOKEN[model.provider])
+
+/**
+ * Cuts a text down to about the given number of tokens, keeping its start.
+ *
+ * @param {string} text - The text to shorten.
+ * @param {number} maxTokens - The token budget.
+ * @param {CatalogModel} model - The model the text is sent to.
+ * @returns {string}
+ */
+export const truncateToTokens = (
+  text: string,
+  maxTokens: number,
+  model: CatalogModel
+): string => {
+  const maxChars = Math.floor(maxTokens * CHARS_PER_TOKEN[model.provider])
+  return text.length <= maxChars
+    ? text
+    : `${text.slice(0, maxChars)}\n… (truncated)`
+}
+
+const messageTokens = (message: ChatHistory, model: CatalogModel) =>
+  MESSAGE_OVERHEAD_TOKENS +
+  estimateTokens(
+    typeof message.content === 'string'
+      ? message.content
+      : JSON.stringify(message.content),
+    model
+  )
+
+/**
+ * Returns the number of prompt tokens a request may use. When the request can
+ * fall back to other models, the smallest of their windows applies.
+ *
+ * @param {CatalogModel[]} models - The models the request may be sent to.
+ * @returns {number}
+ */
+export const getPromptBudget = (models: CatalogModel[]): number =>
+  Math.min(
+    MAX_PROMPT_TOKENS,
+    ...models.map(
+      (model) => model.capabilities.contextWindow - OUTPUT_RESERVE_TOKENS
+    )
+  )
+
+/**
+ * Returns the number of tokens the user's code may take.
+ *
+ * @param {number} budget - The prompt budget.
+ * @returns {number}
+ */
+export const getCodeBudget = (budget: number): number =>
+  Math.floor(budget * MAX_CODE_SHARE)
+
+/**
+ * Returns the number of tokens the page context may take.
+ *
+ * @param {number} budget - The prompt budget.
+ * @returns {number}
+ */
+export const getPageContentBudget = (budget: number): number =>
+  Math.floor(budget * MAX_PAGE_CONTENT_SHARE)
+
+/**
+ * Which part of the history is sent verbatim and which part is covered by
+ * the conversation summary.
+ */
+export interface ContextPlan {
+  /**
+   * Index of the first message sent verbatim.
+   */
+  recentStart: number
+  /**
+   * Whether the messages between the current summary and `recentStart` must
+   * be folded into the summary first.
+   */
+  needsSummary: boolean
+}
+
+/**
+ * Plans which turns fit into the prompt. The most recent turns are kept
+ * verbatim; everything before them is replaced with the rolling summary.
+ *
+ * @param {Object} params - The planner parameters.
+ * @param {CatalogModel} params.model - The model used to estimate tokens.
+ * @param {number} params.budget - The prompt budget, see `getPromptBudget`.
+ * @param {string[]} params.fixed - Texts sent on every turn (system prompt, code, user prompt).
+ * @param {ChatHistory[]} params.history - The whole conversation.
+ * @param {ConversationSummary} [params.summary] - The stored summary, if any.
+ * @returns {ContextPlan}
+ */
+export const planContext = ({
+  model,
+  budget,
+  fixed,
+  history,
+  summary,
+}: {
+  model: CatalogModel
+  budget: number
+  fixed: string[]
+  history: ChatHistory[]
+  summary?: ConversationSummary
+}): ContextPlan => {
+  const coveredCount = Math.min(summary?.coveredCount || 0, history.length)
+  const historyBudget =
+    budget -
+    fixed.reduce((total, text) => total + estimateTokens(text, model), 0) -
+    (summary ? estimateTokens(summary.content, model) : 0)
+
+  const fitFrom = (limit: number) => {
+    let used = 0
+    let start = history.length
+    while (start > coveredCount) {
+      used += messageTokens(history[start - 1], model)
+      if (used > limit) break
+      start--
+    }
+    return start
+  }
+
+  if (fitFrom(historyBudget) === coveredCount) {
+    return { recentStart: coveredCount, needsSummary: false }
+  }
+  return {
+    recentStart: fitFrom(historyBudget * RECENT_SHARE_AFTER_SUMMARY),
+    needsSummary: true,
+  }
+}
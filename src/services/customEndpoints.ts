@@ -0,0 +1,71 @@
+import { CustomEndpoint } from '@/interface/customEndpoint'
+
+/**
+ * Result of testing a custom endpoint from the popup.
+ */
+export interface EndpointTestResult {
+  ok: boolean
+  message: string
+}
+
+/**
+ * Checks that an OpenAI-compatible endpoint is reachable and serves the
+ * configured model by calling its `/models` route.
+ *
+ * @param {CustomEndpoint} endpoint - The endpoint to test.
+ * @returns {Promise<EndpointTestResult>} Whether the endpoint works and a message for the user.
+ */
+export const testCustomEndpoint = async (
+  endpoint: CustomEndpoint
+): Promise<EndpointTestResult> => {
+  try {
+    const response = await fetch(
+      `${endpoint.baseURL.replace(/\/+$/, '')}/models`,
+      {
+        headers: endpoint.apiKey
+          ? { Authorization: `Bearer ${endpoint.apiKey}` }
+          : {},
+      }
+    )
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        message: `Endpoint answered with ${response.status} ${response.statusText}`,
+      }
+    }
+
+    const body = await response.json()
+    const models: string[] = (body?.data || []).map(
+      (model: { id: string }) => model.id
+    )
+
+    if (models.length > 0 && !models.includes(endpoint.model)) {
+      return {
+        ok: false,
+        message: `Model "${endpoint.model}" not found. Available: ${models.join(', ')}`,
+      }
+    }
+
+    return { ok: true, message: `Connected to ${endpoint.name}` }
+  } catch (error: any) {
+    return {
+      ok: false,
+      message: `Could not reach ${endpoint.baseURL}: ${error.message}`,
+    }
+  }
+}
+
+/**
+ * Asks the user to let the extension talk to the endpoint's origin.
+ * Local servers usually do not send CORS headers for extension pages.
+ *
+ * @param {string} baseURL - The base URL of the endpoint.
+ * @returns {Promise<boolean>} Whether the permission was granted.
+ */
+export const requestEndpointPermission = async (
+  baseURL: string
+): Promise<boolean> => {
+  const origin = `${new URL(baseURL).origin}/*`
+  return chrome.permissions.request({ origins: [origin] })
+}
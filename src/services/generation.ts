@@ -0,0 +1,285 @@
+import { TUTORING_MODE_PROMPTS } from '@/constants/prompt'
+import { useChromeStorage } from '@/hooks/useChromeStorage'
+import { CatalogModel } from '@/interface/catalog'
+import {
+  ChatHistoryParsed,
+  ConversationSummary,
+  parseChatHistory,
+} from '@/interface/chatHistory'
+import { isCustomModel } from '@/interface/customEndpoint'
+import { GenerateResponsePartialType } from '@/interface/ModalInterface'
+import {
+  GenerateRequest,
+  GenerateResult,
+  PendingResult,
+} from '@/interface/messages'
+import { classifyProviderError } from '@/lib/providerErrors'
+import { modeOutputSchemas } from '@/schema/modeOutput'
+import {
+  getCodeBudget,
+  getPageContentBudget,
+  getPromptBudget,
+  planContext,
+  truncateToTokens,
+} from '@/services/contextBudget'
+import { ModalCandidate, ModalService } from '@/services/ModalService'
+import { findModel, getCatalog } from '@/services/ModelCatalog'
+import {
+  renderPrompt,
+  resolvePromptTemplate,
+  toPromptVariables,
+} from '@/services/promptTemplates'
+import { recordUsage, toTokenUsage } from '@/services/usage'
+
+const PENDING_RESULTS_KEY = 'pendingResults'
+
+/**
+ * Callbacks through which a generation reports its progress.
+ */
+export interface GenerationCallbacks {
+  onPartial: (partial: GenerateResponsePartialType) => void
+  onAttempt: (model: CatalogModel) => void
+}
+
+/**
+ * Returns the selected model followed by the user's fallback models that
+ * have an API key.
+ *
+ * @param {CatalogModel[]} catalog - The model catalog.
+ * @param {CatalogModel} model - The selected model.
+ * @returns {Promise<ModalCandidate[]>}
+ */
+const getModalCandidates = async (
+  catalog: CatalogModel[],
+  model: CatalogModel
+): Promise<ModalCandidate[]> => {
+  const { getFallbackModels, getKeyModel } = useChromeStorage()
+  const candidates: ModalCandidate[] = [
+    { model, apiKey: (await getKeyModel(model.name)).apiKey },
+  ]
+
+  for (const name of await getFallbackModels()) {
+    const fallback = findModel(catalog, name)
+    if (!fallback || candidates.some((c) => c.model.name === name)) continue
+
+    const { apiKey } = await getKeyModel(name)
+    if (apiKey || isCustomModel(name)) {
+      candidates.push({ model: fallback, apiKey })
+    }
+  }
+  return candidates
+}
+
+/**
+ * Fits the conversation into the prompt budget of the candidates. The most
+ * recent turns are sent verbatim; older turns are folded into a rolling
+ * summary, which is returned so the content script can store it with the
+ * conversation.
+ *
+ * @param {ModalService} modalService - The service used to summarize.
+ * @param {ModalCandidate[]} candidates - The models the request may be sent to.
+ * @param {GenerateRequest} request - The generation request.
+ * @param {string[]} fixed - Texts sent on every turn.
+ * @param {AbortSignal} abortSignal - Cancels the summary request.
+ * @returns The history to send and the summary, if it changed.
+ */
+const prepareHistory = async (
+  modalService: ModalService,
+  candidates: ModalCandidate[],
+  request: GenerateRequest,
+  fixed: string[],
+  abortSignal: AbortSignal
+): Promise<{
+  messages: ChatHistoryParsed[]
+  summary?: ConversationSummary
+}> => {
+  const [main] = candidates
+  const { history } = request
+  let summary = request.summary
+  let newSummary: ConversationSummary | undefined
+  const plan = planContext({
+    model: main.model,
+    budget: getPromptBudget(candidates.map((c) => c.model)),
+    fixed,
+    history,
+    summary,
+  })
+
+  if (plan.needsSummary) {
+    modalService.selectModal(main.model, main.apiKey)
+    const { success, usage } = await modalService.summarize({
+      messages: parseChatHistory(
+        history.slice(summary?.coveredCount || 0, plan.recentStart)
+      ),
+      previousSummary: summary?.content,
+      abortSignal,
+    })
+
+    const tokens = toTokenUsage(usage)
+    if (tokens) await recordUsage(request.problemName, main.model, tokens)
+    // Without a new summary the turns it should cover are dropped.
+    if (success) {
+      summary = newSummary = {
+        content: success,
+        coveredCount: plan.recentStart,
+      }
+    }
+  }
+
+  const recent = parseChatHistory(history.slice(plan.recentStart))
+  return {
+    messages: summary
+      ? [
+          {
+            role: 'system',
+            content: `Summary of the earlier conversation: ${summary.content}`,
+          },
+          ...recent,
+        ]
+      : recent,
+    summary: newSummary,
+  }
+}
+
+/**
+ * Answers a prompt of a content script.
+ *
+ * This function performs the following steps:
+ * 1. Collects the selected model and the fallback models that have an API key.
+ * 2. Truncates the page's code to the prompt budget.
+ * 3. Fills the system prompt with the problem statement, programming language, and code,
+ *    followed by the instructions of the tutoring mode.
+ * 4. Fits the chat history into the prompt budget, summarizing older turns if needed.
+ * 5. Streams a response in the output schema of the tutoring mode, reporting
+ *    partial objects as they arrive and falling back to the next model when
+ *    one keeps failing.
+ * 6. Records the tokens spent.
+ *
+ * @param {GenerateRequest} request - The request sent by the content script.
+ * @param {GenerationCallbacks} callbacks - Receive the partial objects and attempts.
+ * @param {AbortSignal} abortSignal - Stops the generation.
+ * @returns {Promise<GenerateResult>}
+ */
+export const runGeneration = async (
+  request: GenerateRequest,
+  callbacks: GenerationCallbacks,
+  abortSignal: AbortSignal
+): Promise<GenerateResult> => {
+  const catalog = await getCatalog()
+  const model = findModel(catalog, request.model)
+  if (!model) {
+    return {
+      error: { kind: 'not_found', message: 'The selected model is unknown' },
+      success: null,
+      model: null,
+    }
+  }
+
+  const modalService = new ModalService()
+  const candidates = await getModalCandidates(catalog, model)
+  const { context } = request
+
+  const promptBudget = getPromptBudget(candidates.map((c) => c.model))
+  const extractedCode = truncateToTokens(
+    context.extractedCode,
+    getCodeBudget(promptBudget),
+    model
+  )
+  const pageContent = truncateToTokens(
+    context.pageContent || 'None',
+    getPageContentBudget(promptBudget),
+    model
+  )
+
+  const template = await resolvePromptTemplate(
+    request.problemName,
+    request.threadId
+  )
+  const systemPromptModified = [
+    renderPrompt(template.content, {
+      ...toPromptVariables(context),
+      user_code: extractedCode,
+      page_context: pageContent,
+    }),
+    TUTORING_MODE_PROMPTS[request.mode],
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  const { messages, summary } = await prepareHistory(
+    modalService,
+    candidates,
+    request,
+    [systemPromptModified, extractedCode, request.prompt],
+    abortSignal
+  )
+
+  const {
+    error,
+    success,
+    model: answeredBy,
+    usage: tokens,
+  } = await modalService.streamWithFallback(
+    candidates,
+    {
+      prompt: request.prompt,
+      systemPrompt: systemPromptModified,
+      messages,
+      extractedCode: extractedCode,
+      abortSignal,
+      schema: modeOutputSchemas[request.mode],
+    },
+    callbacks.onPartial,
+    callbacks.onAttempt
+  )
+
+  const usage = toTokenUsage(tokens)
+  if (success && usage && answeredBy) {
+    await recordUsage(request.problemName, answeredBy, usage)
+  }
+
+  return {
+    error: error
+      ? { kind: classifyProviderError(error).kind, message: error.message }
+      : null,
+    success,
+    model: answeredBy?.name || null,
+    usage: success ? usage : undefined,
+    summary,
+  }
+}
+
+/**
+ * Keeps an answer whose page went away until its chat is opened again. Stored
+ * in `chrome.storage.session`, so the worker may be restarted in between.
+ *
+ * @param {PendingResult} pending - The answer and the prompt it belongs to.
+ */
+export const savePendingResult = async (pending: PendingResult) => {
+  const result = await chrome.storage.session.get(PENDING_RESULTS_KEY)
+  await chrome.storage.session.set({
+    [PENDING_RESULTS_KEY]: [
+      ...((result[PENDING_RESULTS_KEY] as PendingResult[]) || []),
+      pending,
+    ],
+  })
+}
+
+/**
+ * Returns and forgets the pending answers of a conversation.
+ *
+ * @param {string} problemName - The conversation.
+ * @returns {Promise<PendingResult[]>}
+ */
+export const takePendingResults = async (
+  problemName: string
+): Promise<PendingResult[]> => {
+  const result = await chrome.storage.session.get(PENDING_RESULTS_KEY)
+  const pending = (result[PENDING_RESULTS_KEY] as PendingResult[]) || []
+  await chrome.storage.session.set({
+    [PENDING_RESULTS_KEY]: pending.filter(
+      (entry) => entry.problemName !== problemName
+    ),
+  })
+  return pending.filter((entry) => entry.problemName === problemName)
+}
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PromptVariables } from '@/interface/promptTemplate'
+import {
+  BUILT_IN_TEMPLATE,
+  createPromptTemplate,
+  findUnknownPlaceholders,
+  renderPrompt,
+  resolvePromptTemplate,
+  savePromptTemplate,
+  setThreadTemplateId,
+  toPromptVariables,
+  toSite,
+} from '@/services/promptTemplates'
+import { createFakeStorageArea } from '@/test/fakeStorage'
+
+const VARIABLES: PromptVariables = {
+  problem_statement: 'Two Sum',
+  user_code: 'def two_sum(): pass',
+  programming_language: 'python',
+  page_context: 'None',
+  difficulty: 'Easy',
+  page_url: 'https://leetcode.com/problems/two-sum/',
+}
+
+describe('renderPrompt', () => {
+  it('fills every placeholder, whatever its case and spacing', () => {
+    expect(
+      renderPrompt(
+        'Solve {{problem_statement}} ({{ DIFFICULTY }}) in {{programming_language}}.',
+        VARIABLES
+      )
+    ).toBe('Solve Two Sum (Easy) in python.')
+  })
+
+  it('keeps unknown placeholders', () => {
+    expect(renderPrompt('{{user_cod}} {{user_code}}', VARIABLES)).toBe(
+      '{{user_cod}} def two_sum(): pass'
+    )
+  })
+
+  it('does not fill placeholders inside the values', () => {
+    expect(
+      renderPrompt('{{user_code}}', {
+        ...VARIABLES,
+        user_code: '{{page_url}}',
+      })
+    ).toBe('{{page_url}}')
+  })
+
+  it('ignores inherited object keys', () => {
+    expect(renderPrompt('{{constructor}}', VARIABLES)).toBe('{{constructor}}')
+  })
+})
+
+describe('findUnknownPlaceholders', () => {
+  it('lists each typo once', () => {
+    expect(
+      findUnknownPlaceholders(
+        '{{user_cod}} {{User_Code}} {{user_cod}} {{ difficulty }} {{toString}}'
+      )
+    ).toEqual(['user_cod', 'toString'])
+  })
+})
+
+describe('toPromptVariables', () => {
+  it('fills in the values the page does not have', () => {
+    expect(
+      toPromptVariables({
+        problemStatement: 'A video',
+        programmingLanguage: 'UNKNOWN',
+        extractedCode: '',
+      })
+    ).toEqual({
+      problem_statement: 'A video',
+      user_code: '',
+      programming_language: 'UNKNOWN',
+      page_context: 'None',
+      difficulty: 'Unknown',
+      page_url: '',
+    })
+  })
+})
+
+describe('toSite', () => {
+  it.each([
+    ['https://www.leetcode.com/problems/two-sum/', 'leetcode.com'],
+    ['  WWW.YouTube.com ', 'youtube.com'],
+    ['leetcode.cn', 'leetcode.cn'],
+  ])('turns %s into %s', (value, site) => {
+    expect(toSite(value)).toBe(site)
+  })
+})
+
+describe('stored templates', () => {
+  beforeEach(() => {
+    vi.stubGlobal('chrome', { storage: { local: createFakeStorageArea() } })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps the previous content as a revision', async () => {
+    const template = await createPromptTemplate('Terse', 'v1')
+
+    const saved = await savePromptTemplate({ ...template, content: 'v2' })
+    expect(saved).toMatchObject({ version: 2, content: 'v2' })
+    expect(saved.revisions).toEqual([
+      { version: 1, content: 'v1', updatedAt: template.updatedAt },
+    ])
+
+    const renamed = await savePromptTemplate({ ...saved, name: 'Short' })
+    expect(renamed).toMatchObject({ version: 2, name: 'Short' })
+    expect(renamed.revisions).toHaveLength(1)
+  })
+
+  it('refuses to edit the built-in template', async () => {
+    await expect(savePromptTemplate(BUILT_IN_TEMPLATE)).rejects.toThrow(
+      'Clone the template to edit it'
+    )
+  })
+
+  it('prefers the pick of the thread over the template of the site', async () => {
+    const site = await createPromptTemplate('LeetCode', 'site', [
+      'https://leetcode.com/',
+    ])
+    const picked = await createPromptTemplate('Picked', 'picked')
+
+    await expect(
+      resolvePromptTemplate(VARIABLES.page_url, 'thread-1')
+    ).resolves.toMatchObject({ id: site.id })
+    await expect(
+      resolvePromptTemplate('https://youtube.com/watch?v=1', 'thread-1')
+    ).resolves.toBe(BUILT_IN_TEMPLATE)
+
+    await setThreadTemplateId('thread-1', picked.id)
+    await expect(
+      resolvePromptTemplate(VARIABLES.page_url, 'thread-1')
+    ).resolves.toMatchObject({ id: picked.id })
+  })
+})
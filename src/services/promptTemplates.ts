@@ -0,0 +1,292 @@
+import { PROMPT_PLACEHOLDERS, SYSTEM_PROMPT } from '@/constants/prompt'
+import { BackupSettings, RestoreMode } from '@/interface/backup'
+import { PageContext } from '@/interface/messages'
+import {
+  PromptPlaceholder,
+  PromptTemplate,
+  PromptVariables,
+} from '@/interface/promptTemplate'
+
+const TEMPLATES_KEY = 'promptTemplates'
+const THREAD_TEMPLATES_KEY = 'threadPromptTemplates'
+
+/**
+ * Number of earlier versions kept per template.
+ */
+const MAX_REVISIONS = 10
+
+/**
+ * The prompt shipped with the extension. It can't be edited, only cloned.
+ */
+export const BUILT_IN_TEMPLATE: PromptTemplate = {
+  id: 'built-in',
+  name: 'LeetCode Whisper (built-in)',
+  content: SYSTEM_PROMPT,
+  version: 1,
+  updatedAt: 0,
+  sites: [],
+  revisions: [],
+}
+
+/**
+ * Returns the hostname of a URL, or of a hostname typed by the user, without
+ * `www.`.
+ *
+ * @param {string} value - A URL or a hostname.
+ * @returns {string}
+ */
+export const toSite = (value: string) => {
+  let hostname = value.trim().toLowerCase()
+  try {
+    hostname = new URL(hostname).hostname
+  } catch {
+    // Already a hostname
+  }
+  return hostname.replace(/^www\./, '')
+}
+
+const toSites = (values: string[]) =>
+  Array.from(new Set(values.map(toSite).filter(Boolean)))
+
+const getStoredTemplates = async () => {
+  const result = await chrome.storage.local.get(TEMPLATES_KEY)
+  return (result[TEMPLATES_KEY] as PromptTemplate[]) || []
+}
+
+const setStoredTemplates = async (templates: PromptTemplate[]) => {
+  await chrome.storage.local.set({ [TEMPLATES_KEY]: templates })
+}
+
+/**
+ * Lists the built-in template and the user's templates.
+ *
+ * @returns {Promise<PromptTemplate[]>}
+ */
+export const getPromptTemplates = async (): Promise<PromptTemplate[]> => [
+  BUILT_IN_TEMPLATE,
+  ...(await getStoredTemplates()),
+]
+
+/**
+ * Creates a template, e.g. a clone of another one.
+ *
+ * @param {string} name - The name shown in the pickers.
+ * @param {string} content - The prompt.
+ * @param {string[]} [sites] - Hostnames to use the template on.
+ * @returns {Promise<PromptTemplate>} The new template.
+ */
+export const createPromptTemplate = async (
+  name: string,
+  content: string,
+  sites: string[] = []
+) => {
+  const template: PromptTemplate = {
+    id: crypto.randomUUID(),
+    name,
+    content,
+    version: 1,
+    updatedAt: Date.now(),
+    sites: toSites(sites),
+    revisions: [],
+  }
+  await setStoredTemplates([...(await getStoredTemplates()), template])
+  return template
+}
+
+/**
+ * Saves the name, sites and content of a template. A changed content becomes
+ * a new version; the previous one is kept as a revision.
+ *
+ * @param {Pick<PromptTemplate, 'id' | 'name' | 'content' | 'sites'>} changes - The edited fields.
+ * @returns {Promise<PromptTemplate>} The saved template.
+ * @throws When the template is the built-in one or does not exist.
+ */
+export const savePromptTemplate = async ({
+  id,
+  name,
+  content,
+  sites,
+}: Pick<PromptTemplate, 'id' | 'name' | 'content' | 'sites'>) => {
+  const templates = await getStoredTemplates()
+  const existing = templates.find((template) => template.id === id)
+  if (!existing) throw new Error('Clone the template to edit it')
+
+  const isChanged = existing.content !== content
+  const saved: PromptTemplate = {
+    ...existing,
+    name,
+    content,
+    sites: toSites(sites),
+    version: isChanged ? existing.version + 1 : existing.version,
+    updatedAt: Date.now(),
+    revisions: isChanged
+      ? [
+          {
+            version: existing.version,
+            content: existing.content,
+            updatedAt: existing.updatedAt,
+          },
+          ...existing.revisions,
+        ].slice(0, MAX_REVISIONS)
+      : existing.revisions,
+  }
+  await setStoredTemplates(
+    templates.map((template) => (template.id === id ? saved : template))
+  )
+  return saved
+}
+
+export const deletePromptTemplate = async (id: string) => {
+  await setStoredTemplates(
+    (await getStoredTemplates()).filter((template) => template.id !== id)
+  )
+}
+
+const getThreadTemplates = async () => {
+  const result = await chrome.storage.local.get(THREAD_TEMPLATES_KEY)
+  return (result[THREAD_TEMPLATES_KEY] as Record<string, string>) || {}
+}
+
+/**
+ * Returns the template a conversation picked, if any.
+ *
+ * @param {string} threadId - The thread.
+ * @returns {Promise<string | undefined>} The id of the template.
+ */
+export const getThreadTemplateId = async (threadId: string) =>
+  (await getThreadTemplates())[threadId] as string | undefined
+
+/**
+ * Picks the template of a conversation.
+ *
+ * @param {string} threadId - The thread.
+ * @param {string | null} templateId - The template, or null for the one of the site.
+ */
+export const setThreadTemplateId = async (
+  threadId: string,
+  templateId: string | null
+) => {
+  const { [threadId]: _previous, ...others } = await getThreadTemplates()
+  await chrome.storage.local.set({
+    [THREAD_TEMPLATES_KEY]: templateId
+      ? { ...others, [threadId]: templateId }
+      : others,
+  })
+}
+
+/**
+ * Reads the user's templates and the picks of the conversations, for a
+ * backup.
+ */
+export const getPromptTemplateBackup = async (): Promise<
+  Pick<BackupSettings, 'promptTemplates' | 'threadPromptTemplates'>
+> => ({
+  promptTemplates: await getStoredTemplates(),
+  threadPromptTemplates: await getThreadTemplates(),
+})
+
+/**
+ * Restores the templates of a backup. Merging keeps the current version of
+ * templates that exist in both.
+ *
+ * @param {BackupSettings} settings - The settings of the backup.
+ * @param {RestoreMode} mode - Whether to merge into or replace the current templates.
+ */
+export const restorePromptTemplateBackup = async (
+  { promptTemplates = [], threadPromptTemplates = {} }: BackupSettings,
+  mode: RestoreMode
+) => {
+  if (mode === 'replace') {
+    await setStoredTemplates(promptTemplates)
+    await chrome.storage.local.set({
+      [THREAD_TEMPLATES_KEY]: threadPromptTemplates,
+    })
+    return
+  }
+
+  const current = await getStoredTemplates()
+  await setStoredTemplates([
+    ...current,
+    ...promptTemplates.filter(
+      (template) => !current.some(({ id }) => id === template.id)
+    ),
+  ])
+  await chrome.storage.local.set({
+    [THREAD_TEMPLATES_KEY]: {
+      ...threadPromptTemplates,
+      ...(await getThreadTemplates()),
+    },
+  })
+}
+
+/**
+ * Finds the template a conversation uses: the one it picked, else the most
+ * recently updated one of its site, else the built-in one.
+ *
+ * @param {string} problemName - The conversation key, a URL.
+ * @param {string} threadId - The thread.
+ * @returns {Promise<PromptTemplate>}
+ */
+export const resolvePromptTemplate = async (
+  problemName: string,
+  threadId: string
+): Promise<PromptTemplate> => {
+  const templates = await getPromptTemplates()
+  const picked = await getThreadTemplateId(threadId)
+  const site = toSite(problemName)
+
+  return (
+    templates.find((template) => template.id === picked) ||
+    templates
+      .filter((template) => template.sites.includes(site))
+      .sort((a, b) => b.updatedAt - a.updatedAt)[0] ||
+    BUILT_IN_TEMPLATE
+  )
+}
+
+/**
+ * Reads the values of the placeholders from the page context.
+ *
+ * @param {PageContext} context - The context read by the site adapter.
+ * @returns {PromptVariables}
+ */
+export const toPromptVariables = (context: PageContext): PromptVariables => ({
+  problem_statement: context.problemStatement,
+  user_code: context.extractedCode,
+  programming_language: context.programmingLanguage,
+  page_context: context.pageContent || 'None',
+  difficulty: context.problem?.difficulty || 'Unknown',
+  page_url: context.pageUrl || '',
+})
+
+const PLACEHOLDER_PATTERN = /{{\s*(\w+)\s*}}/g
+
+const isPlaceholder = (name: string): name is PromptPlaceholder =>
+  Object.prototype.hasOwnProperty.call(PROMPT_PLACEHOLDERS, name)
+
+/**
+ * Fills the placeholders of a template. Unknown placeholders are kept as
+ * they are.
+ *
+ * @param {string} content - The template.
+ * @param {PromptVariables} variables - The values.
+ * @returns {string}
+ */
+export const renderPrompt = (content: string, variables: PromptVariables) =>
+  content.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const key = name.toLowerCase()
+    return isPlaceholder(key) ? variables[key] : match
+  })
+
+/**
+ * Lists the placeholders of a template that are not filled in, e.g. typos.
+ *
+ * @param {string} content - The template.
+ * @returns {string[]}
+ */
+export const findUnknownPlaceholders = (content: string) =>
+  Array.from(
+    new Set(
+      Array.from(content.matchAll(PLACEHOLDER_PATTERN), ([, name]) => name)
+    )
+  ).filter((name) => !isPlaceholder(name.toLowerCase()))
@@ -0,0 +1,84 @@
+import { createModal } from '@/modals'
+import { CatalogModel } from '@/interface/catalog'
+import { VaultProvider } from '@/lib/keyVault'
+import { classifyProviderError, ProviderErrorKind } from '@/lib/providerErrors'
+
+const HEALTH_KEY = 'providerHealth'
+
+/**
+ * Result of the last connection test of a provider.
+ */
+export interface ProviderHealth {
+  status: 'ok' | ProviderErrorKind
+  /**
+   * Readable summary of the status.
+   */
+  message: string
+  /**
+   * The model the connection was tested with.
+   */
+  model: CatalogModel['name']
+  checkedAt: number
+}
+
+const STATUS_MESSAGES: Partial<Record<ProviderHealth['status'], string>> = {
+  ok: 'Connected',
+  auth: 'The API key was rejected',
+  quota: 'Quota exceeded or billing not set up',
+  not_found: 'The key has no access to this model',
+  rate_limit: 'Rate limited, try again in a moment',
+  server: 'The provider is having problems',
+  network: 'Could not reach the provider',
+}
+
+/**
+ * Tests a key by sending a minimal request to one of the provider's models.
+ * The outcome is stored as the provider's last-known health.
+ *
+ * @param {CatalogModel} model - The model to test with.
+ * @param {string} apiKey - The key to test.
+ * @returns {Promise<ProviderHealth>}
+ */
+export const testConnection = async (
+  model: CatalogModel,
+  apiKey: string
+): Promise<ProviderHealth> => {
+  const modal = createModal(model)
+  modal.init(apiKey)
+  const { error } = await modal.testConnection()
+
+  const info = error ? classifyProviderError(error) : null
+  const status = info ? info.kind : 'ok'
+  const health: ProviderHealth = {
+    status,
+    message: STATUS_MESSAGES[status] || info?.message || status,
+    model: model.name,
+    checkedAt: Date.now(),
+  }
+
+  if (model.provider !== 'custom') {
+    await saveProviderHealth(model.provider, health)
+  }
+  return health
+}
+
+/**
+ * Reads the last-known health of every tested provider.
+ *
+ * @returns {Promise<Partial<Record<VaultProvider, ProviderHealth>>>}
+ */
+export const getProviderHealth = async (): Promise<
+  Partial<Record<VaultProvider, ProviderHealth>>
+> => {
+  const result = await chrome.storage.local.get(HEALTH_KEY)
+  return result[HEALTH_KEY] || {}
+}
+
+const saveProviderHealth = async (
+  provider: VaultProvider,
+  health: ProviderHealth
+) => {
+  await chrome.storage.local.set({
+    [HEALTH_KEY]: { ...(await getProviderHealth()), [provider]: health },
+  })
+}
@@ -0,0 +1,63 @@
+import { BackupSettings, RestoreMode } from '@/interface/backup'
+import { TutoringMode } from '@/schema/modeOutput'
+
+const THREAD_MODES_KEY = 'threadTutoringModes'
+
+export const DEFAULT_TUTORING_MODE: TutoringMode = 'guided'
+
+const getThreadModes = async () => {
+  const result = await chrome.storage.local.get(THREAD_MODES_KEY)
+  return (result[THREAD_MODES_KEY] as Record<string, TutoringMode>) || {}
+}
+
+/**
+ * Returns the tutoring mode of a conversation.
+ *
+ * @param {string} threadId - The thread.
+ * @returns {Promise<TutoringMode>}
+ */
+export const getThreadTutoringMode = async (threadId: string) =>
+  (await getThreadModes())[threadId] || DEFAULT_TUTORING_MODE
+
+/**
+ * Switches the tutoring mode of a conversation.
+ *
+ * @param {string} threadId - The thread.
+ * @param {TutoringMode} mode - The mode, the default one is not stored.
+ */
+export const setThreadTutoringMode = async (
+  threadId: string,
+  mode: TutoringMode
+) => {
+  const { [threadId]: _previous, ...others } = await getThreadModes()
+  await chrome.storage.local.set({
+    [THREAD_MODES_KEY]:
+      mode === DEFAULT_TUTORING_MODE ? others : { ...others, [threadId]: mode },
+  })
+}
+
+/**
+ * Reads the modes of the conversations, for a backup.
+ */
+export const getTutoringModeBackup = async (): Promise<
+  Pick<BackupSettings, 'threadTutoringModes'>
+> => ({ threadTutoringModes: await getThreadModes() })
+
+/**
+ * Restores the modes of a backup. Merging keeps the current mode of threads
+ * that have one.
+ *
+ * @param {BackupSettings} settings - The settings of the backup.
+ * @param {RestoreMode} mode - Whether to merge into or replace the current modes.
+ */
+export const restoreTutoringModeBackup = async (
+  { threadTutoringModes = {} }: BackupSettings,
+  mode: RestoreMode
+) => {
+  await chrome.storage.local.set({
+    [THREAD_MODES_KEY]:
+      mode === 'replace'
+        ? threadTutoringModes
+        : { ...threadTutoringModes, ...(await getThreadModes()) },
+  })
+}
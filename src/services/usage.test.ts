@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CatalogModel } from '@/interface/catalog'
+import { UsageRecord } from '@/interface/usage'
+import {
+  getMonthlySpend,
+  getUsageLog,
+  recordUsage,
+  summarizeUsage,
+  toTokenUsage,
+  updateUsageLog,
+} from '@/services/usage'
+import { createFakeStorageArea } from '@/test/fakeStorage'
+
+const MODEL: CatalogModel = {
+  name: 'openai_4o',
+  model: 'gpt-4o',
+  provider: 'openai',
+  display: 'GPT-4o',
+  capabilities: {
+    contextWindow: 128_000,
+    structuredOutput: true,
+    vision: true,
+  },
+  source: 'manifest',
+}
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  createdAt: new Date(2024, 10, 20).getTime(),
+  problemName: 'two-sum',
+  model: 'openai_4o',
+  provider: 'openai',
+  promptTokens: 100,
+  completionTokens: 10,
+  cost: 0.01,
+  ...overrides,
+})
+
+describe('usage log', () => {
+  beforeEach(() => {
+    vi.stubGlobal('chrome', { storage: { local: createFakeStorageArea() } })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps every answer recorded at the same time', async () => {
+    await Promise.all([
+      recordUsage('two-sum', MODEL, { promptTokens: 1, completionTokens: 1 }),
+      recordUsage('3sum', MODEL, { promptTokens: 2, completionTokens: 2 }),
+      recordUsage('two-sum', MODEL, { promptTokens: 3, completionTokens: 3 }),
+    ])
+
+    const log = await getUsageLog()
+    expect(log.map((entry) => entry.promptTokens)).toEqual([1, 2, 3])
+  })
+
+  it('keeps writing after an update failed', async () => {
+    const failed = updateUsageLog(() => {
+      throw new Error('Quota exceeded')
+    })
+    await expect(failed).rejects.toThrow('Quota exceeded')
+
+    await recordUsage('two-sum', MODEL, {
+      promptTokens: 1,
+      completionTokens: 1,
+    })
+    expect(await getUsageLog()).toHaveLength(1)
+  })
+
+  it('drops records older than a year', async () => {
+    await updateUsageLog(() => [record({ createdAt: 0 })])
+
+    await recordUsage('two-sum', MODEL, {
+      promptTokens: 1,
+      completionTokens: 1,
+    })
+    expect(await getUsageLog()).toHaveLength(1)
+  })
+})
+
+describe('toTokenUsage', () => {
+  it('drops counts the provider did not report', () => {
+    expect(toTokenUsage({ promptTokens: NaN, completionTokens: 3 })).toBe(
+      undefined
+    )
+    expect(toTokenUsage({ promptTokens: 2, completionTokens: 3 })).toEqual({
+      promptTokens: 2,
+      completionTokens: 3,
+    })
+  })
+})
+
+describe('summarizeUsage', () => {
+  it('totals the records of each group', () => {
+    const summary = summarizeUsage(
+      [
+        record({ problemName: 'two-sum', cost: 0.01 }),
+        record({ problemName: '3sum', cost: 0.05 }),
+        record({ problemName: 'two-sum', cost: null }),
+      ],
+      'problem'
+    )
+
+    expect(summary).toEqual([
+      expect.objectContaining({ key: '3sum', requests: 1, cost: 0.05 }),
+      expect.objectContaining({
+        key: 'two-sum',
+        requests: 2,
+        promptTokens: 200,
+        hasUnpricedUsage: true,
+      }),
+    ])
+  })
+})
+
+describe('getMonthlySpend', () => {
+  it('only counts the current month', () => {
+    const log = [
+      record({ createdAt: new Date(2024, 9, 31).getTime(), cost: 1 }),
+      record({ createdAt: new Date(2024, 10, 1).getTime(), cost: 0.5 }),
+      record({ createdAt: new Date(2024, 10, 2).getTime(), cost: null }),
+    ]
+
+    expect(getMonthlySpend(log, new Date(2024, 10, 20))).toBe(0.5)
+  })
+})
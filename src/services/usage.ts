@@ -0,0 +1,210 @@
+import { getModelPrice } from '@/constants/pricing'
+import { CatalogModel } from '@/interface/catalog'
+import {
+  TokenUsage,
+  UsageGrouping,
+  UsageRecord,
+  UsageSummary,
+} from '@/interface/usage'
+
+const USAGE_LOG_KEY = 'usageLog'
+
+/**
+ * Records older than this are dropped from the log.
+ */
+const USAGE_RETENTION_MS = 365 * 24 * 60 * 60 * 1000
+
+/**
+ * Share of the monthly budget after which requests show a warning.
+ */
+export const BUDGET_WARNING_RATIO = 0.8
+
+/**
+ * The last pending change of the usage log. Answers that finish together
+ * would otherwise read the same log and keep only the last record.
+ */
+let usageLogWrite: Promise<unknown> = Promise.resolve()
+
+/**
+ * Estimates the cost of an answer from the model's list price.
+ *
+ * @param {CatalogModel} model - The model that answered.
+ * @param {TokenUsage} usage - The tokens spent.
+ * @returns {number | null} The cost in USD, or `null` when the price is unknown.
+ */
+export const estimateCost = (
+  model: CatalogModel,
+  usage: TokenUsage
+): number | null => {
+  const price = getModelPrice(model)
+  if (!price) return null
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  )
+}
+
+/**
+ * Keeps only token counts the provider actually reported. Some
+ * OpenAI-compatible servers send none, which the SDK turns into `NaN`.
+ *
+ * @param {Partial<TokenUsage>} [usage] - The usage returned by the SDK.
+ * @returns {TokenUsage | undefined}
+ */
+export const toTokenUsage = (
+  usage?: Partial<TokenUsage>
+): TokenUsage | undefined => {
+  const promptTokens = Number(usage?.promptTokens)
+  const completionTokens = Number(usage?.completionTokens)
+  if (!Number.isFinite(promptTokens) || !Number.isFinite(completionTokens)) {
+    return undefined
+  }
+  return { promptTokens, completionTokens }
+}
+
+/**
+ * Reads the usage log from `chrome.storage.local`.
+ *
+ * @returns {Promise<UsageRecord[]>}
+ */
+export const getUsageLog = async (): Promise<UsageRecord[]> => {
+  const result = await chrome.storage.local.get(USAGE_LOG_KEY)
+  return (result[USAGE_LOG_KEY] as UsageRecord[]) || []
+}
+
+/**
+ * Changes the usage log after every earlier change has been stored.
+ *
+ * @param {(log: UsageRecord[]) => UsageRecord[]} update - Returns the new log.
+ * @returns {Promise<void>}
+ */
+export const updateUsageLog = (
+  update: (log: UsageRecord[]) => UsageRecord[]
+): Promise<void> => {
+  const write = usageLogWrite.then(async () => {
+    const log = await getUsageLog()
+    await chrome.storage.local.set({ [USAGE_LOG_KEY]: update(log) })
+  })
+  usageLogWrite = write.catch(() => undefined)
+  return write
+}
+
+/**
+ * Appends an answer to the usage log and drops expired records.
+ *
+ * @param {string} problemName - The conversation the answer belongs to.
+ * @param {CatalogModel} model - The model that answered.
+ * @param {TokenUsage} usage - The tokens spent.
+ * @returns {Promise<UsageRecord>} The stored record.
+ */
+export const recordUsage = async (
+  problemName: string,
+  model: CatalogModel,
+  usage: TokenUsage
+): Promise<UsageRecord> => {
+  const record: UsageRecord = {
+    createdAt: Date.now(),
+    problemName,
+    model: model.name,
+    provider: model.provider,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    cost: estimateCost(model, usage),
+  }
+  await updateUsageLog((log) => [
+    ...log.filter(
+      (entry) => entry.createdAt > record.createdAt - USAGE_RETENTION_MS
+    ),
+    record,
+  ])
+  return record
+}
+
+/**
+ * Deletes the whole usage log.
+ */
+export const clearUsageLog = async () => {
+  await chrome.storage.local.remove(USAGE_LOG_KEY)
+}
+
+/**
+ * Returns the local calendar day of a timestamp, e.g. `2024-11-20`.
+ */
+const toDay = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-')
+}
+
+const GROUP_KEYS: Record<UsageGrouping, (record: UsageRecord) => string> = {
+  day: (record) => toDay(record.createdAt),
+  problem: (record) => record.problemName,
+  provider: (record) => record.provider,
+}
+
+/**
+ * Totals the usage log per day, per problem or per provider. Days are sorted
+ * newest first, the other groupings by cost.
+ *
+ * @param {UsageRecord[]} log - The usage log.
+ * @param {UsageGrouping} grouping - What to group by.
+ * @returns {UsageSummary[]}
+ */
+export const summarizeUsage = (
+  log: UsageRecord[],
+  grouping: UsageGrouping
+): UsageSummary[] => {
+  const groups = new Map<string, UsageSummary>()
+  log.forEach((record) => {
+    const key = GROUP_KEYS[grouping](record)
+    const summary = groups.get(key) || {
+      key,
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      hasUnpricedUsage: false,
+    }
+    groups.set(key, {
+      key,
+      requests: summary.requests + 1,
+      promptTokens: summary.promptTokens + record.promptTokens,
+      completionTokens: summary.completionTokens + record.completionTokens,
+      cost: summary.cost + (record.cost || 0),
+      hasUnpricedUsage: summary.hasUnpricedUsage || record.cost === null,
+    })
+  })
+
+  return Array.from(groups.values()).sort((a, b) =>
+    grouping === 'day' ? b.key.localeCompare(a.key) : b.cost - a.cost
+  )
+}
+
+/**
+ * Totals the cost of the records of the current calendar month.
+ *
+ * @param {UsageRecord[]} log - The usage log.
+ * @param {Date} [now] - The current date.
+ * @returns {number} The spend in USD.
+ */
+export const getMonthlySpend = (
+  log: UsageRecord[],
+  now: Date = new Date()
+): number => {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime()
+  return log
+    .filter((record) => record.createdAt >= monthStart)
+    .reduce((total, record) => total + (record.cost || 0), 0)
+}
+
+/**
+ * Formats a cost in USD, keeping cents of a cent visible.
+ *
+ * @param {number} cost - The cost in USD.
+ * @returns {string}
+ */
+export const formatCost = (cost: number): string =>
+  `$${cost < 1 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`
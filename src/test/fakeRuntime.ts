@@ -0,0 +1,133 @@
+import { MessageSenderLike, PortLike, RuntimeLike } from '@/lib/messageBus'
+
+type Listener<T extends (...args: any[]) => any> = Set<T>
+
+const createEvent = <T extends (...args: any[]) => any>(
+  listeners: Listener<T>
+) => ({
+  addListener: (callback: T) => void listeners.add(callback),
+  removeListener: (callback: T) => void listeners.delete(callback),
+})
+
+/**
+ * Creates the two connected ends of an in-memory port.
+ */
+const createPortPair = (name: string): [PortLike, PortLike] => {
+  const listeners: [
+    Listener<(message: unknown) => void>,
+    Listener<() => void>,
+  ][] = [
+    [new Set(), new Set()],
+    [new Set(), new Set()],
+  ]
+  let isOpen = true
+
+  const end = (self: number): PortLike => {
+    const other = 1 - self
+    return {
+      name,
+      postMessage: (message) => {
+        if (!isOpen) throw new Error('Attempting to use a disconnected port')
+        // Like Chrome, deliver asynchronously and as a structured clone.
+        const copy = JSON.parse(JSON.stringify(message))
+        queueMicrotask(() => listeners[other][0].forEach((l) => l(copy)))
+      },
+      disconnect: () => {
+        if (!isOpen) return
+        isOpen = false
+        queueMicrotask(() => listeners[other][1].forEach((l) => l()))
+      },
+      onMessage: createEvent(listeners[self][0]),
+      onDisconnect: createEvent(listeners[self][1]),
+    }
+  }
+  return [end(0), end(1)]
+}
+
+/**
+ * An in-memory stand-in for `chrome.runtime`, for exercising the message bus
+ * without a browser. Every call of `context()` returns the runtime of one
+ * extension context (background, popup, content script); messages sent from
+ * a context reach the listeners of all other contexts, as in Chrome.
+ *
+ * @example
+ * const runtime = createFakeRuntime()
+ * const background = createMessageBus(runtime.context())
+ * const content = createMessageBus(runtime.context())
+ * background.handle('getModelStatus', () => status)
+ * await content.request('getModelStatus', {})
+ */
+export const createFakeRuntime = () => {
+  const contexts: {
+    onMessage: Listener<Parameters<RuntimeLike['onMessage']['addListener']>[0]>
+    onConnect: Listener<(port: PortLike) => void>
+  }[] = []
+
+  return {
+    /**
+     * Sent messages, oldest first, for assertions.
+     */
+    sent: [] as unknown[],
+
+    /**
+     * @param {MessageSenderLike} [sender] - What receivers learn about the context.
+     */
+    context(sender: MessageSenderLike = {}): RuntimeLike {
+      const self = {
+        onMessage: new Set(),
+        onConnect: new Set(),
+      } as (typeof contexts)[number]
+      contexts.push(self)
+      const sent = this.sent
+
+      return {
+        sendMessage: (message) =>
+          new Promise((resolve, reject) => {
+            sent.push(message)
+            const copy = JSON.parse(JSON.stringify(message))
+            let isAsync = false
+            let isAnswered = false
+            const sendResponse = (response?: unknown) => {
+              if (isAnswered) return
+              isAnswered = true
+              resolve(
+                response === undefined
+                  ? undefined
+                  : JSON.parse(JSON.stringify(response))
+              )
+            }
+
+            contexts
+              .filter((context) => context !== self)
+              .forEach((context) =>
+                context.onMessage.forEach((listener) => {
+                  if (listener(copy, sender, sendResponse) === true)
+                    isAsync = true
+                })
+              )
+
+            if (!isAsync && !isAnswered) {
+              reject(
+                new Error(
+                  'Could not establish connection. Receiving end does not exist.'
+                )
+              )
+            }
+          }),
+        onMessage: createEvent(self.onMessage),
+        connect: (_extensionId, { name }) => {
+          const [local, remote] = createPortPair(name)
+          queueMicrotask(() =>
+            contexts
+              .filter((context) => context !== self)
+              .forEach((context) =>
+                context.onConnect.forEach((listener) => listener(remote))
+              )
+          )
+          return local
+        },
+        onConnect: createEvent(self.onConnect),
+      }
+    },
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * An in-memory stand-in for a `chrome.storage` area. Every call resolves on a
+ * later macrotask, as the real storage does, so interleaved reads and writes
+ * behave like they do in the extension.
+ *
+ * @returns The area and the values it holds.
+ */
+export const createFakeStorageArea = () => {
+  const values: Record<string, unknown> = {}
+  const later = <T>(value: () => T) =>
+    new Promise<T>((resolve) => setTimeout(() => resolve(value()), 0))
+
+  return {
+    values,
+    get: (keys: string | string[]) =>
+      later(() =>
+        Object.fromEntries(
+          [keys]
+            .flat()
+            .filter((key) => key in values)
+            .map((key) => [key, values[key]])
+        )
+      ),
+    set: (items: Record<string, unknown>) =>
+      later(() => void Object.assign(values, items)),
+    remove: (keys: string | string[]) =>
+      later(() => [keys].flat().forEach((key) => delete values[key])),
+  }
+}
@@ -1,12 +1,12 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
-import { crx } from '@crxjs/vite-plugin'
+import { crx, ManifestV3Export } from '@crxjs/vite-plugin'
 import manifest from './manifest.json'
 import path from 'path'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), crx({ manifest })],
+  plugins: [react(), crx({ manifest: manifest as ManifestV3Export })],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),